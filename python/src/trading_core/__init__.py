@@ -3,6 +3,7 @@
 from trading_core.types import (
     Asset,
     AssetWire,
+    BarInterval,
     CloseStrategy,
     Fill,
     FillWire,
@@ -11,27 +12,39 @@ from trading_core.types import (
     LongPositionWire,
     MarketBar,
     MarketBarInterval,
+    MarketBarSeriesWire,
     MarketBarWire,
     MarketQuote,
+    MarketQuoteSeriesWire,
     MarketQuoteWire,
     MarketSnapshot,
+    MarketSnapshotDeltaFrameWire,
+    MarketSnapshotDeltaWire,
+    MarketSnapshotFullFrameWire,
     MarketSnapshotWire,
     Order,
+    OrderBookLevel,
+    OrderBookUpdate,
+    OrderBookUpdateWire,
     OrderStatus,
     OrderType,
     OrderWire,
     OrderState,
     OrderStateWire,
     Position,
+    PositionPatchWire,
     PositionWire,
     ShortPosition,
     ShortPositionLot,
     ShortPositionWire,
+    TradeTick,
+    TradeTickWire,
 )
 
 __all__ = [
     "Asset",
     "AssetWire",
+    "BarInterval",
     "CloseStrategy",
     "Fill",
     "FillWire",
@@ -40,20 +53,31 @@ __all__ = [
     "LongPositionWire",
     "MarketBar",
     "MarketBarInterval",
+    "MarketBarSeriesWire",
     "MarketBarWire",
     "MarketQuote",
+    "MarketQuoteSeriesWire",
     "MarketQuoteWire",
     "MarketSnapshot",
+    "MarketSnapshotDeltaFrameWire",
+    "MarketSnapshotDeltaWire",
+    "MarketSnapshotFullFrameWire",
     "MarketSnapshotWire",
     "Order",
+    "OrderBookLevel",
+    "OrderBookUpdate",
+    "OrderBookUpdateWire",
     "OrderStatus",
     "OrderType",
     "OrderWire",
     "OrderState",
     "OrderStateWire",
     "Position",
+    "PositionPatchWire",
     "PositionWire",
     "ShortPosition",
     "ShortPositionLot",
     "ShortPositionWire",
+    "TradeTick",
+    "TradeTickWire",
 ]
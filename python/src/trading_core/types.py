@@ -2,9 +2,17 @@
 
 from datetime import datetime, timezone
 from enum import Enum
-from typing import Literal, Optional
+from typing import Annotated, Literal, Optional, Union
 
-from pydantic import BaseModel, Field
+from pydantic import (
+    AfterValidator,
+    BaseModel,
+    Field,
+    RootModel,
+    StringConstraints,
+    ValidationInfo,
+    field_validator,
+)
 
 
 def ms_to_datetime(ms: int) -> datetime:
@@ -121,6 +129,45 @@ class MarketSnapshot(BaseModel):
         )
 
 
+# ============================================================================
+# MarketSnapshotDelta
+# ============================================================================
+
+
+class MarketSnapshotFullFrameWire(BaseModel):
+    """Wire format for a full market snapshot frame."""
+
+    type: Literal["full"]
+    seq: int = Field(ge=0)
+    price: dict[str, float]
+    timestamp: int
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class MarketSnapshotDeltaFrameWire(BaseModel):
+    """Wire format for a delta frame against the frame at base_seq."""
+
+    type: Literal["delta"]
+    seq: int = Field(gt=0)
+    base_seq: int = Field(alias="baseSeq", ge=0)
+    base_timestamp: int = Field(alias="baseTimestamp")
+    price: dict[str, float]
+    removed: Optional[list[str]] = None
+    timestamp: int
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class MarketSnapshotDeltaWire(RootModel):
+    """Wire format for a full or delta market snapshot frame."""
+
+    root: Annotated[
+        Union[MarketSnapshotFullFrameWire, MarketSnapshotDeltaFrameWire],
+        Field(discriminator="type"),
+    ]
+
+
 # ============================================================================
 # MarketQuote
 # ============================================================================
@@ -209,6 +256,30 @@ class MarketBarInterval(str, Enum):
     MONTH1 = "1M"
 
 
+# Standard intervals plus the extended grammar: <count><unit> time bars
+# (s, m, h, d, w, M) and <n>tick, <size>volume or <size>range activity bars.
+# Sizes have no trailing zeros, so equal intervals are equal strings
+BAR_INTERVAL_PATTERN = (
+    r"^(?:[1-9]\d*(?:s|m|h|d|w|M|tick)"
+    r"|(?:[1-9]\d*(?:\.\d*[1-9])?|0\.\d*[1-9])(?:volume|range))$"
+)
+
+
+def _standard_interval(value: str) -> str:
+    """Return the MarketBarInterval member for standard intervals."""
+    try:
+        return MarketBarInterval(value)
+    except ValueError:
+        return value
+
+
+BarInterval = Annotated[
+    str,
+    StringConstraints(pattern=BAR_INTERVAL_PATTERN),
+    AfterValidator(_standard_interval),
+]
+
+
 class MarketBarWire(BaseModel):
     """Wire format for MarketBar."""
 
@@ -219,7 +290,7 @@ class MarketBarWire(BaseModel):
     close: float
     volume: float
     timestamp: int
-    interval: MarketBarInterval
+    interval: BarInterval
 
     model_config = {"populate_by_name": True, "extra": "allow"}
 
@@ -234,7 +305,7 @@ class MarketBar(BaseModel):
     close: float
     volume: float
     timestamp: datetime
-    interval: MarketBarInterval
+    interval: BarInterval
 
     @classmethod
     def from_wire(cls, wire: MarketBarWire) -> "MarketBar":
@@ -264,6 +335,82 @@ class MarketBar(BaseModel):
         )
 
 
+# ============================================================================
+# Series
+# ============================================================================
+
+
+def _check_column_length(
+    column: Optional[list], info: ValidationInfo
+) -> Optional[list]:
+    """Check that a series column has one value per timestamp."""
+    timestamp = info.data.get("timestamp")
+    if column is not None and timestamp is not None:
+        if len(column) != len(timestamp):
+            raise ValueError(
+                f"{info.field_name} has {len(column)} values, "
+                f"expected {len(timestamp)}"
+            )
+    return column
+
+
+class MarketBarSeriesWire(BaseModel):
+    """Columnar wire format for bars of one symbol and interval."""
+
+    symbol: str
+    interval: BarInterval
+    timestamp: list[int]
+    open: list[float]
+    high: list[float]
+    low: list[float]
+    close: list[float]
+    volume: list[float]
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+    @field_validator("open", "high", "low", "close", "volume")
+    @classmethod
+    def check_length(
+        cls, column: list[float], info: ValidationInfo
+    ) -> list[float]:
+        return _check_column_length(column, info)
+
+
+class MarketQuoteSeriesWire(BaseModel):
+    """Columnar wire format for quotes of one symbol; null marks a gap."""
+
+    symbol: str
+    timestamp: list[int]
+    price: list[float]
+    volume: Optional[list[Optional[float]]] = None
+    total_volume: Optional[list[Optional[float]]] = Field(
+        None, alias="totalVolume")
+    bid: Optional[list[Optional[float]]] = None
+    bid_vol: Optional[list[Optional[float]]] = Field(None, alias="bidVol")
+    ask: Optional[list[Optional[float]]] = None
+    ask_vol: Optional[list[Optional[float]]] = Field(None, alias="askVol")
+    pre_close: Optional[list[Optional[float]]] = Field(
+        None, alias="preClose")
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+    @field_validator(
+        "price",
+        "volume",
+        "total_volume",
+        "bid",
+        "bid_vol",
+        "ask",
+        "ask_vol",
+        "pre_close",
+    )
+    @classmethod
+    def check_length(
+        cls, column: Optional[list], info: ValidationInfo
+    ) -> Optional[list]:
+        return _check_column_length(column, info)
+
+
 # ============================================================================
 # Order Types
 # ============================================================================
@@ -741,3 +888,210 @@ class CloseStrategy(str, Enum):
 
     FIFO = "FIFO"
     LIFO = "LIFO"
+
+
+# ============================================================================
+# PositionPatch
+# ============================================================================
+
+
+class LongLotsPatch(BaseModel):
+    """Changes to the ends of a long lot queue."""
+
+    shift: Optional[int] = Field(None, gt=0)
+    pop: Optional[int] = Field(None, gt=0)
+    unshift: Optional[list[LongPositionLot]] = None
+    push: Optional[list[LongPositionLot]] = None
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class ShortLotsPatch(BaseModel):
+    """Changes to the ends of a short lot queue."""
+
+    shift: Optional[int] = Field(None, gt=0)
+    pop: Optional[int] = Field(None, gt=0)
+    unshift: Optional[list[ShortPositionLot]] = None
+    push: Optional[list[ShortPositionLot]] = None
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class LongPositionUpdateWire(BaseModel):
+    """Changed fields of an existing long position."""
+
+    quantity: Optional[float] = None
+    total_cost: Optional[float] = Field(None, alias="totalCost")
+    realised_pnl: Optional[float] = Field(None, alias="realisedPnL")
+    lots: Optional[LongLotsPatch] = None
+    modified: Optional[int] = None
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class ShortPositionUpdateWire(BaseModel):
+    """Changed fields of an existing short position."""
+
+    quantity: Optional[float] = None
+    total_proceeds: Optional[float] = Field(None, alias="totalProceeds")
+    realised_pnl: Optional[float] = Field(None, alias="realisedPnL")
+    lots: Optional[ShortLotsPatch] = None
+    modified: Optional[int] = None
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class LongPositionSidePatch(BaseModel):
+    """Added, updated and removed long positions by symbol."""
+
+    added: Optional[dict[str, LongPositionWire]] = None
+    updated: Optional[dict[str, LongPositionUpdateWire]] = None
+    removed: Optional[list[str]] = None
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class ShortPositionSidePatch(BaseModel):
+    """Added, updated and removed short positions by symbol."""
+
+    added: Optional[dict[str, ShortPositionWire]] = None
+    updated: Optional[dict[str, ShortPositionUpdateWire]] = None
+    removed: Optional[list[str]] = None
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class PositionPatchWire(BaseModel):
+    """Wire format for a Position patch; patch n applies to snapshot n - 1."""
+
+    seq: int = Field(gt=0)
+    cash: Optional[float] = None
+    total_commission: Optional[float] = Field(None, alias="totalCommission")
+    realised_pnl: Optional[float] = Field(None, alias="realisedPnL")
+    long: Optional[LongPositionSidePatch] = None
+    short: Optional[ShortPositionSidePatch] = None
+    modified: int
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+# ============================================================================
+# TradeTick
+# ============================================================================
+
+
+class TradeTickWire(BaseModel):
+    """Wire format for TradeTick."""
+
+    id: str
+    symbol: str
+    price: float
+    volume: float = Field(ge=0)
+    timestamp: int
+    aggressor: Optional[Literal["BUY", "SELL"]] = None
+    conditions: Optional[list[str]] = None
+    venue: Optional[str] = None
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class TradeTick(BaseModel):
+    """Runtime TradeTick type."""
+
+    id: str
+    symbol: str
+    price: float
+    volume: float
+    timestamp: datetime
+    aggressor: Optional[Literal["BUY", "SELL"]] = None
+    conditions: Optional[list[str]] = None
+    venue: Optional[str] = None
+
+    @classmethod
+    def from_wire(cls, wire: TradeTickWire) -> "TradeTick":
+        """Create TradeTick from wire format."""
+        return cls(
+            id=wire.id,
+            symbol=wire.symbol,
+            price=wire.price,
+            volume=wire.volume,
+            timestamp=ms_to_datetime(wire.timestamp),
+            aggressor=wire.aggressor,
+            conditions=wire.conditions,
+            venue=wire.venue,
+        )
+
+    def to_wire(self) -> TradeTickWire:
+        """Convert to wire format."""
+        return TradeTickWire(
+            id=self.id,
+            symbol=self.symbol,
+            price=self.price,
+            volume=self.volume,
+            timestamp=datetime_to_ms(self.timestamp),
+            aggressor=self.aggressor,
+            conditions=self.conditions,
+            venue=self.venue,
+        )
+
+
+# ============================================================================
+# OrderBookUpdate
+# ============================================================================
+
+
+class OrderBookLevel(BaseModel):
+    """Order book price level; zero size removes the level."""
+
+    price: float
+    size: float = Field(ge=0)
+    orders: Optional[int] = Field(None, ge=0)
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class OrderBookUpdateWire(BaseModel):
+    """Wire format for OrderBookUpdate."""
+
+    symbol: str
+    seq: int = Field(ge=0)
+    is_snapshot: bool = Field(alias="isSnapshot")
+    bids: list[OrderBookLevel]
+    asks: list[OrderBookLevel]
+    timestamp: int
+
+    model_config = {"populate_by_name": True, "extra": "allow"}
+
+
+class OrderBookUpdate(BaseModel):
+    """Runtime OrderBookUpdate type."""
+
+    symbol: str
+    seq: int
+    is_snapshot: bool
+    bids: list[OrderBookLevel]
+    asks: list[OrderBookLevel]
+    timestamp: datetime
+
+    @classmethod
+    def from_wire(cls, wire: OrderBookUpdateWire) -> "OrderBookUpdate":
+        """Create OrderBookUpdate from wire format."""
+        return cls(
+            symbol=wire.symbol,
+            seq=wire.seq,
+            is_snapshot=wire.is_snapshot,
+            bids=wire.bids,
+            asks=wire.asks,
+            timestamp=ms_to_datetime(wire.timestamp),
+        )
+
+    def to_wire(self) -> OrderBookUpdateWire:
+        """Convert to wire format."""
+        return OrderBookUpdateWire(
+            symbol=self.symbol,
+            seq=self.seq,
+            isSnapshot=self.is_snapshot,
+            bids=self.bids,
+            asks=self.asks,
+            timestamp=datetime_to_ms(self.timestamp),
+        )
@@ -3,24 +3,59 @@
 import json
 from pathlib import Path
 
+import pytest
+from pydantic import BaseModel, ValidationError
+
 from trading_core import (
     Asset,
     AssetWire,
     Fill,
     FillWire,
+    LongPositionWire,
     MarketBar,
+    MarketBarSeriesWire,
     MarketBarWire,
     MarketQuote,
+    MarketQuoteSeriesWire,
     MarketQuoteWire,
+    MarketSnapshotDeltaWire,
+    MarketSnapshotWire,
     Order,
+    OrderBookUpdateWire,
     OrderState,
     OrderStateWire,
     OrderWire,
     Position,
+    PositionPatchWire,
     PositionWire,
+    ShortPositionWire,
+    TradeTickWire,
 )
+from trading_core.types import PartialOrderWire
 
 FIXTURES_DIR = Path(__file__).parent.parent.parent / "fixtures"
+INVALID_DIR = FIXTURES_DIR / "invalid"
+
+# Wire model for every shared fixture, mirroring the TypeScript WIRE_SCHEMAS
+WIRE_MODELS: dict[str, type[BaseModel]] = {
+    "asset.json": AssetWire,
+    "market_snapshot.json": MarketSnapshotWire,
+    "market_quote.json": MarketQuoteWire,
+    "market_bar.json": MarketBarWire,
+    "order.json": OrderWire,
+    "partial_order.json": PartialOrderWire,
+    "order_state.json": OrderStateWire,
+    "fill.json": FillWire,
+    "long_position.json": LongPositionWire,
+    "short_position.json": ShortPositionWire,
+    "position.json": PositionWire,
+    "position_patch.json": PositionPatchWire,
+    "market_snapshot_delta.json": MarketSnapshotDeltaWire,
+    "market_bar_series.json": MarketBarSeriesWire,
+    "market_quote_series.json": MarketQuoteSeriesWire,
+    "trade_tick.json": TradeTickWire,
+    "order_book_update.json": OrderBookUpdateWire,
+}
 
 
 def load_fixture(filename: str) -> dict:
@@ -260,3 +295,46 @@ def test_python_to_ts_serialization():
 
     assert parsed_position.cash == position.cash
     assert parsed_position.total_commission == position.total_commission
+
+
+def test_every_fixture_has_a_wire_model():
+    """Test that each shared fixture maps to a Python wire model."""
+    for directory in (FIXTURES_DIR, INVALID_DIR):
+        for path in directory.glob("*.json"):
+            assert path.name in WIRE_MODELS, path
+    for filename in WIRE_MODELS:
+        assert (FIXTURES_DIR / filename).exists(), filename
+        assert (INVALID_DIR / filename).exists(), filename
+
+
+@pytest.mark.parametrize("filename", sorted(WIRE_MODELS))
+def test_fixture_wire_round_trip(filename):
+    """Test that every fixture survives a wire-level round trip."""
+    data = load_fixture(filename)
+    wire = WIRE_MODELS[filename].model_validate(data)
+    assert wire.model_dump(mode="json", by_alias=True, exclude_none=True) == data
+
+
+def error_locations(error: ValidationError, data: dict) -> list[list]:
+    """Error locations without the tag pydantic prefixes to tagged unions."""
+    tag = data.get("type")
+    locations = []
+    for detail in error.errors():
+        loc = list(detail["loc"])
+        if tag is not None and loc[:1] == [tag]:
+            loc = loc[1:]
+        locations.append(loc)
+    return locations
+
+
+@pytest.mark.parametrize("filename", sorted(WIRE_MODELS))
+def test_invalid_fixtures_rejected(filename):
+    """Test that invalid fixtures are rejected at the same path as TypeScript."""
+    cases = load_fixture(f"invalid/{filename}")
+    assert cases
+
+    for case in cases:
+        with pytest.raises(ValidationError) as exc_info:
+            WIRE_MODELS[filename].model_validate(case["data"])
+        locations = error_locations(exc_info.value, case["data"])
+        assert case["path"] in locations, case["description"]
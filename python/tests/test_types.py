@@ -131,6 +131,32 @@ def test_market_bar_with_interval():
     assert bar.interval.value == "5m"
 
 
+def test_market_bar_extended_interval():
+    """Test MarketBar with intervals from the extended grammar."""
+    data = {
+        "symbol": "AAPL",
+        "open": 150.0,
+        "high": 151.0,
+        "low": 149.5,
+        "close": 150.5,
+        "volume": 1000000,
+        "timestamp": 1609459200000,
+    }
+
+    for interval in ["30s", "3m", "2d", "3M", "100tick", "5000volume", "0.5range"]:
+        wire = MarketBarWire.model_validate({**data, "interval": interval})
+        assert wire.interval == interval
+        assert wire.model_dump(mode="json")["interval"] == interval
+
+    assert MarketBarWire.model_validate({**data, "interval": "1M"}).interval is (
+        MarketBarInterval.MONTH1
+    )
+
+    for interval in ["5x", "0m", "1.5m", "m", "1.0volume", "0.10range"]:
+        with pytest.raises(ValidationError):
+            MarketBarWire.model_validate({**data, "interval": interval})
+
+
 def test_order_discriminated_union():
     """Test Order with discriminated union (side/effect)."""
     buy_order = OrderWire(
@@ -0,0 +1,26 @@
+// Writes JSON Schema and OpenAPI documents for the wire types into dist/schemas
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { toJsonSchemas, toOpenApiDocument } from "../dist/index.js";
+
+const outDir = new URL("../dist/schemas/", import.meta.url);
+const pkg = JSON.parse(
+  await readFile(new URL("../package.json", import.meta.url), "utf8")
+);
+
+await mkdir(outDir, { recursive: true });
+
+for (const [name, schema] of Object.entries(toJsonSchemas())) {
+  await writeFile(
+    new URL(`${name}.schema.json`, outDir),
+    JSON.stringify(schema, null, 2) + "\n"
+  );
+}
+
+await writeFile(
+  new URL("openapi.json", outDir),
+  JSON.stringify(
+    toOpenApiDocument({ title: pkg.name, version: pkg.version }),
+    null,
+    2
+  ) + "\n"
+);
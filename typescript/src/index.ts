@@ -10,10 +10,14 @@ import type {
   Fill,
   Position,
   LongPosition,
+  LongPositionLot,
   ShortPosition,
+  ShortPositionLot,
   MarketBarInterval,
   OrderType,
   OrderStatus,
+  OrderSide,
+  PositionEffect,
   PartialOrder,
 } from "@junduck/trading-core/trading";
 
@@ -178,6 +182,45 @@ export const marketQuoteSchema = {
 // MarketBar
 // ============================================================================
 
+// Intervals are <count><unit> time bars (s, m, h, d, w, M) or activity bars
+// closing after <n>tick, <size>volume or a <size>range high-low span. Every
+// MarketBarInterval is a time bar in this grammar. Sizes have no trailing
+// zeros, so equal intervals are equal strings.
+const BAR_INTERVAL_PATTERN =
+  /^(?:[1-9]\d*(?:s|m|h|d|w|M|tick)|(?:[1-9]\d*(?:\.\d*[1-9])?|0\.\d*[1-9])(?:volume|range))$/;
+
+export const BarIntervalSchema = z.string().regex(BAR_INTERVAL_PATTERN);
+
+// Any interval in the grammar; the literals keep editor completion
+export type BarInterval = MarketBarInterval | (string & {});
+
+// Core bars only name the standard intervals, but decoded and derived bars
+// may carry any of them
+export interface AnyIntervalMarketBar extends Omit<MarketBar, "interval"> {
+  interval: BarInterval;
+}
+
+// Standard intervals in binary tag order; append only
+const MARKET_BAR_INTERVALS = [
+  "1m",
+  "5m",
+  "15m",
+  "30m",
+  "1h",
+  "2h",
+  "4h",
+  "1d",
+  "1w",
+  "1M",
+] as const satisfies readonly MarketBarInterval[];
+
+// Narrows a decoded interval back to one the core MarketBar accepts
+export function isMarketBarInterval(
+  interval: string
+): interval is MarketBarInterval {
+  return (MARKET_BAR_INTERVALS as readonly string[]).includes(interval);
+}
+
 export const MarketBarWireSchema = z.object({
   symbol: z.string(),
   open: z.number(),
@@ -186,23 +229,12 @@ export const MarketBarWireSchema = z.object({
   close: z.number(),
   volume: z.number(),
   timestamp: z.number(),
-  interval: z.enum([
-    "1m",
-    "5m",
-    "15m",
-    "30m",
-    "1h",
-    "2h",
-    "4h",
-    "1d",
-    "1w",
-    "1M",
-  ]),
+  interval: BarIntervalSchema,
 });
 
 export type MarketBarWire = z.infer<typeof MarketBarWireSchema>;
 
-export function encodeMarketBar(bar: MarketBar): MarketBarWire {
+export function encodeMarketBar(bar: AnyIntervalMarketBar): MarketBarWire {
   return {
     symbol: bar.symbol,
     open: bar.open,
@@ -215,7 +247,7 @@ export function encodeMarketBar(bar: MarketBar): MarketBarWire {
   };
 }
 
-export function decodeMarketBar(parsed: MarketBarWire): MarketBar {
+export function decodeMarketBar(parsed: MarketBarWire): AnyIntervalMarketBar {
   return {
     symbol: parsed.symbol,
     open: parsed.open,
@@ -224,16 +256,761 @@ export function decodeMarketBar(parsed: MarketBarWire): MarketBar {
     close: parsed.close,
     volume: parsed.volume,
     timestamp: new Date(parsed.timestamp),
-    interval: parsed.interval as MarketBarInterval,
+    interval: parsed.interval,
+  };
+}
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+// 1970-01-05T00:00:00Z, the first Monday after the epoch
+const WEEK_ORIGIN_MS = 4 * DAY_MS;
+
+export type BarIntervalUnit = "s" | "m" | "h" | "d" | "w" | "M";
+
+export type ParsedBarInterval =
+  | {
+      kind: "time";
+      count: number;
+      unit: BarIntervalUnit;
+    }
+  | {
+      kind: "tick" | "volume" | "range";
+      size: number;
+    };
+
+const BAR_INTERVAL_UNIT_MS: Readonly<
+  Record<Exclude<BarIntervalUnit, "M">, number>
+> = {
+  s: 1000,
+  m: MINUTE_MS,
+  h: HOUR_MS,
+  d: DAY_MS,
+  w: WEEK_MS,
+};
+
+export function parseBarInterval(
+  interval: string
+): ParsedBarInterval | undefined {
+  if (!BAR_INTERVAL_PATTERN.test(interval)) return undefined;
+  const [, amount, unit] = /^([\d.]+)(.+)$/.exec(interval)!;
+  const value = Number(amount);
+  if (unit === "tick" || unit === "volume" || unit === "range") {
+    return { kind: unit, size: value };
+  }
+  return { kind: "time", count: value, unit: unit as BarIntervalUnit };
+}
+
+export function formatBarInterval(parsed: ParsedBarInterval): string {
+  return parsed.kind === "time"
+    ? `${parsed.count}${parsed.unit}`
+    : `${parsed.size}${parsed.kind}`;
+}
+
+function parseTimeInterval(interval: string) {
+  const parsed = parseBarInterval(interval);
+  if (parsed?.kind !== "time") {
+    throw new RangeError(`${interval} is not a time bar interval`);
+  }
+  return parsed;
+}
+
+const mod = (a: number, b: number) => ((a % b) + b) % b;
+
+// Fixed length; undefined for months, whose length varies, and activity bars
+export function barIntervalMs(interval: string): number | undefined {
+  const parsed = parseBarInterval(interval);
+  if (parsed?.kind !== "time" || parsed.unit === "M") return undefined;
+  return parsed.count * BAR_INTERVAL_UNIT_MS[parsed.unit];
+}
+
+// Standard intervals only; bars may carry any interval, so look those up with
+// barIntervalMs
+export const MARKET_BAR_INTERVAL_MS: Readonly<
+  Record<Exclude<MarketBarInterval, "1M">, number>
+> = Object.fromEntries(
+  MARKET_BAR_INTERVALS.flatMap((interval) => {
+    const ms = barIntervalMs(interval);
+    return ms === undefined ? [] : [[interval, ms]];
+  })
+) as Record<Exclude<MarketBarInterval, "1M">, number>;
+
+// Start of the bar containing timestamp. Boundaries are UTC and counted from
+// the epoch: weeks from Monday 1970-01-05, months from January 1970 (so 3M
+// bars start in January, April, July and October).
+export function alignToBarInterval(
+  timestamp: number,
+  interval: string
+): number {
+  const { count, unit } = parseTimeInterval(interval);
+  if (unit === "M") {
+    const date = new Date(timestamp);
+    const months = (date.getUTCFullYear() - 1970) * 12 + date.getUTCMonth();
+    const start = months - mod(months, count);
+    return Date.UTC(1970 + Math.floor(start / 12), mod(start, 12), 1);
+  }
+  const origin = unit === "w" ? WEEK_ORIGIN_MS : 0;
+  return (
+    timestamp - mod(timestamp - origin, count * BAR_INTERVAL_UNIT_MS[unit])
+  );
+}
+
+// Same time n bars later (earlier for negative n). Months keep the day of
+// month where it exists and clamp to the last day otherwise.
+export function addBarInterval(
+  timestamp: number,
+  interval: string,
+  n = 1
+): number {
+  const { count, unit } = parseTimeInterval(interval);
+  if (unit !== "M") return timestamp + n * count * BAR_INTERVAL_UNIT_MS[unit];
+
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + n * count;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  date.setUTCFullYear(year, month, Math.min(date.getUTCDate(), lastDay));
+  return date.getTime();
+}
+
+// Activity bars have no time boundary, so any timestamp is aligned
+export function isAlignedToInterval(
+  timestamp: number,
+  interval: string
+): boolean {
+  const parsed = parseBarInterval(interval);
+  if (parsed === undefined) return false;
+  if (parsed.kind !== "time") return true;
+  return alignToBarInterval(timestamp, interval) === timestamp;
+}
+
+function invariantReporter<T extends string>(ctx: z.RefinementCtx) {
+  return (invariant: T, path: string, message: string) => {
+    ctx.addIssue({
+      code: "custom",
+      path: [path],
+      message,
+      params: { invariant },
+    });
   };
 }
 
+// Strict schemas tag each refinement issue with the invariant it enforces
+export function getInvariants<T extends string = string>(
+  error: z.ZodError
+): T[] {
+  return error.issues.flatMap((issue) =>
+    issue.code === "custom" && issue.params?.["invariant"] !== undefined
+      ? [issue.params["invariant"] as T]
+      : []
+  );
+}
+
+export type MarketBarInvariant =
+  | "HIGH_BELOW_LOW"
+  | "OPEN_OUT_OF_RANGE"
+  | "CLOSE_OUT_OF_RANGE"
+  | "INVALID_VOLUME"
+  | "UNALIGNED_TIMESTAMP";
+
+export const MarketBarStrictWireSchema = MarketBarWireSchema.superRefine(
+  (bar, ctx) => {
+    const fail = invariantReporter<MarketBarInvariant>(ctx);
+
+    if (bar.high < bar.low) {
+      fail("HIGH_BELOW_LOW", "high", `high ${bar.high} < low ${bar.low}`);
+    }
+    if (bar.open < bar.low || bar.open > bar.high) {
+      fail("OPEN_OUT_OF_RANGE", "open", `open ${bar.open} outside [low, high]`);
+    }
+    if (bar.close < bar.low || bar.close > bar.high) {
+      fail(
+        "CLOSE_OUT_OF_RANGE",
+        "close",
+        `close ${bar.close} outside [low, high]`
+      );
+    }
+    if (!Number.isFinite(bar.volume) || bar.volume < 0) {
+      fail("INVALID_VOLUME", "volume", `volume ${bar.volume} is not >= 0`);
+    }
+    if (!isAlignedToInterval(bar.timestamp, bar.interval)) {
+      fail(
+        "UNALIGNED_TIMESTAMP",
+        "timestamp",
+        `timestamp ${bar.timestamp} is not on a ${bar.interval} boundary`
+      );
+    }
+  }
+);
+
 export const marketBarSchema = {
   validate: (data: unknown) => MarketBarWireSchema.safeParse(data),
-  encode: (bar: MarketBar) => encodeMarketBar(bar),
+  validateStrict: (data: unknown) => MarketBarStrictWireSchema.safeParse(data),
+  encode: (bar: AnyIntervalMarketBar) => encodeMarketBar(bar),
   decode: (wire: MarketBarWire) => decodeMarketBar(wire),
 };
 
+// ============================================================================
+// Trade Ticks
+// ============================================================================
+
+export const TradeTickWireSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  price: z.number(),
+  volume: z.number().nonnegative(),
+  timestamp: z.number(),
+  // Side of the order that took liquidity, when the venue reports it
+  aggressor: z.enum(["BUY", "SELL"]).optional(),
+  conditions: z.array(z.string()).optional(),
+  venue: z.string().optional(),
+});
+
+export type TradeTickWire = z.infer<typeof TradeTickWireSchema>;
+
+export interface TradeTick {
+  id: string;
+  symbol: string;
+  price: number;
+  volume: number;
+  timestamp: Date;
+  aggressor?: OrderSide;
+  conditions?: string[];
+  venue?: string;
+}
+
+export function encodeTradeTick(tick: TradeTick): TradeTickWire {
+  const wire: TradeTickWire = {
+    id: tick.id,
+    symbol: tick.symbol,
+    price: tick.price,
+    volume: tick.volume,
+    timestamp: tick.timestamp.getTime(),
+  };
+
+  if (tick.aggressor !== undefined) wire.aggressor = tick.aggressor;
+  if (tick.conditions !== undefined) wire.conditions = tick.conditions;
+  if (tick.venue !== undefined) wire.venue = tick.venue;
+
+  return wire;
+}
+
+export function decodeTradeTick(parsed: TradeTickWire): TradeTick {
+  const tick: TradeTick = {
+    id: parsed.id,
+    symbol: parsed.symbol,
+    price: parsed.price,
+    volume: parsed.volume,
+    timestamp: new Date(parsed.timestamp),
+  };
+
+  if (parsed.aggressor !== undefined) tick.aggressor = parsed.aggressor;
+  if (parsed.conditions !== undefined) tick.conditions = parsed.conditions;
+  if (parsed.venue !== undefined) tick.venue = parsed.venue;
+
+  return tick;
+}
+
+export const tradeTickSchema = {
+  validate: (data: unknown) => TradeTickWireSchema.safeParse(data),
+  encode: (tick: TradeTick) => encodeTradeTick(tick),
+  decode: (wire: TradeTickWire) => decodeTradeTick(wire),
+};
+
+export interface TickAggregationOptions {
+  // Ticks rejected here (e.g. by condition code) do not touch any bar
+  include?: (tick: TradeTick) => boolean;
+}
+
+// Time bars are aligned the same way isAlignedToInterval checks them, one per
+// symbol and interval that saw at least one tick; empty intervals are skipped.
+// Ticks may arrive out of order: open and close follow tick timestamps, with
+// ties going to arrival order. Activity bars (tick, volume, range) are cut in
+// arrival order per symbol and stamped with their first tick's time.
+export function aggregateTicks(
+  ticks: Iterable<TradeTick>,
+  interval: string,
+  options: TickAggregationOptions = {}
+): AnyIntervalMarketBar[] {
+  const parsed = parseBarInterval(interval);
+  if (parsed === undefined) {
+    throw new RangeError(`Invalid bar interval ${interval}`);
+  }
+  const bars = new Map<
+    string,
+    { bar: AnyIntervalMarketBar; first: number; last: number; ticks: number }
+  >();
+  // Key of the bar still filling up, per symbol, for activity bars
+  const current = new Map<string, string>();
+  let nextBar = 0;
+
+  for (const tick of ticks) {
+    if (options.include && !options.include(tick)) continue;
+    const time = tick.timestamp.getTime();
+    const start =
+      parsed.kind === "time" ? alignToBarInterval(time, interval) : time;
+    const key =
+      parsed.kind === "time"
+        ? `${tick.symbol}\u0000${start}`
+        : (current.get(tick.symbol) ?? `${tick.symbol}\u0000#${nextBar++}`);
+    let entry = bars.get(key);
+
+    if (entry === undefined) {
+      entry = {
+        bar: {
+          symbol: tick.symbol,
+          open: tick.price,
+          high: tick.price,
+          low: tick.price,
+          close: tick.price,
+          volume: tick.volume,
+          timestamp: new Date(start),
+          interval,
+        },
+        first: time,
+        last: time,
+        ticks: 1,
+      };
+      bars.set(key, entry);
+    } else {
+      const { bar } = entry;
+      bar.high = Math.max(bar.high, tick.price);
+      bar.low = Math.min(bar.low, tick.price);
+      bar.volume += tick.volume;
+      entry.ticks++;
+      if (time < entry.first) {
+        entry.first = time;
+        bar.open = tick.price;
+      }
+      if (time >= entry.last) {
+        entry.last = time;
+        bar.close = tick.price;
+      }
+    }
+
+    if (parsed.kind === "time") continue;
+    const { bar } = entry;
+    const full =
+      parsed.kind === "tick"
+        ? entry.ticks >= parsed.size
+        : parsed.kind === "volume"
+          ? bar.volume >= parsed.size
+          : bar.high - bar.low >= parsed.size;
+    if (full) current.delete(tick.symbol);
+    else current.set(tick.symbol, key);
+  }
+
+  // Stable sort keeps symbols in first-seen order within a timestamp
+  return [...bars.values()]
+    .map(({ bar }) => bar)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// ============================================================================
+// Bar Series
+// ============================================================================
+
+// A series is one symbol at one interval, keyed by bar timestamp
+
+export type BarSeriesError =
+  | { type: "OUT_OF_ORDER"; index: number; timestamp: Date }
+  | { type: "DUPLICATE_TIMESTAMP"; index: number; timestamp: Date }
+  | { type: "UNALIGNED_TIMESTAMP"; index: number; timestamp: Date }
+  | {
+      type: "GAP";
+      // First missing bar and the next bar present
+      start: Date;
+      end: Date;
+      missing: number;
+    };
+
+export interface BarSeriesResult {
+  valid: boolean;
+  errors: BarSeriesError[];
+}
+
+export interface BarSeriesOptions {
+  // Missing bars outside trading hours (nights, weekends) are not gaps
+  isTradingTime?: (timestamp: Date) => boolean;
+}
+
+export interface BarMergeOptions {
+  // Which bar wins when series share a timestamp; later series by default
+  keep?: "first" | "last";
+}
+
+function assertSingleSeries(bars: readonly AnyIntervalMarketBar[]): void {
+  const [first] = bars;
+  if (first === undefined) return;
+  const mixed = bars.find(
+    (bar) => bar.symbol !== first.symbol || bar.interval !== first.interval
+  );
+  if (mixed !== undefined) {
+    throw new RangeError(
+      `Series mixes ${first.symbol} ${first.interval} and ${mixed.symbol} ${mixed.interval}`
+    );
+  }
+}
+
+function countMissingBars(
+  start: number,
+  end: number,
+  interval: string,
+  options: BarSeriesOptions
+): number {
+  const length = barIntervalMs(interval);
+  if (options.isTradingTime === undefined && length !== undefined) {
+    return Math.round((end - start) / length);
+  }
+  let missing = 0;
+  for (let t = start; t < end; t = addBarInterval(t, interval)) {
+    if (options.isTradingTime?.(new Date(t)) ?? true) missing++;
+  }
+  return missing;
+}
+
+// Reports ordering, duplicate, alignment and gap problems. Activity bars have
+// no time grid and repeat timestamps legitimately, so only ordering applies.
+export function validateBarSeries(
+  bars: readonly AnyIntervalMarketBar[],
+  options: BarSeriesOptions = {}
+): BarSeriesResult {
+  assertSingleSeries(bars);
+  const errors: BarSeriesError[] = [];
+  const interval = bars[0]?.interval;
+  const timeBars = parseBarInterval(interval ?? "")?.kind === "time";
+  let prev: number | undefined;
+  let prevAligned = false;
+
+  bars.forEach((bar, index) => {
+    const time = bar.timestamp.getTime();
+    const timestamp = bar.timestamp;
+    if (prev !== undefined && time < prev) {
+      errors.push({ type: "OUT_OF_ORDER", index, timestamp });
+      return;
+    }
+    if (!timeBars) {
+      prev = time;
+      return;
+    }
+    if (time === prev) {
+      errors.push({ type: "DUPLICATE_TIMESTAMP", index, timestamp });
+      return;
+    }
+
+    const aligned = isAlignedToInterval(time, interval!);
+    if (!aligned)
+      errors.push({ type: "UNALIGNED_TIMESTAMP", index, timestamp });
+    if (aligned && prevAligned) {
+      const expected = addBarInterval(prev!, interval!);
+      const missing =
+        time > expected
+          ? countMissingBars(expected, time, interval!, options)
+          : 0;
+      if (missing > 0) {
+        errors.push({
+          type: "GAP",
+          start: new Date(expected),
+          end: timestamp,
+          missing,
+        });
+      }
+    }
+    prev = time;
+    prevAligned = aligned;
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+// Bars sorted by timestamp with one bar per timestamp. All inputs must share
+// a symbol and interval.
+export function mergeBars(
+  series: readonly (readonly AnyIntervalMarketBar[])[],
+  options: BarMergeOptions = {}
+): AnyIntervalMarketBar[] {
+  const all = series.flat();
+  assertSingleSeries(all);
+  const byTime = new Map<number, AnyIntervalMarketBar>();
+  for (const bar of all) {
+    const time = bar.timestamp.getTime();
+    if (options.keep === "first" && byTime.has(time)) continue;
+    byTime.set(time, bar);
+  }
+  return [...byTime.entries()].sort(([a], [b]) => a - b).map(([, bar]) => bar);
+}
+
+export function dedupeBars(
+  bars: readonly AnyIntervalMarketBar[],
+  options: BarMergeOptions = {}
+): AnyIntervalMarketBar[] {
+  return mergeBars([bars], options);
+}
+
+// Downsampling groups bars into aligned target bars the way aggregateTicks
+// groups ticks: first open, last close, high/low extremes, summed volume, and
+// empty target bars skipped. Upsampling cannot recover intrabar prices: each
+// sub-bar keeps the source high and low, opens at the source open, and only
+// the last closes at the source close. Volume is split evenly, so
+// downsampling the result gives back the source bar.
+export function resampleBars(
+  bars: readonly AnyIntervalMarketBar[],
+  interval: string
+): AnyIntervalMarketBar[] {
+  assertSingleSeries(bars);
+  const [first] = bars;
+  if (first === undefined) return [];
+  const source = first.interval;
+  // Activity bars have no time grid to resample on
+  parseTimeInterval(source);
+  parseTimeInterval(interval);
+
+  const result: AnyIntervalMarketBar[] = [];
+  let bucket: AnyIntervalMarketBar | undefined;
+  let prev: number | undefined;
+
+  for (const bar of bars) {
+    const time = bar.timestamp.getTime();
+    if (prev !== undefined && time <= prev) {
+      throw new RangeError(
+        `${bar.symbol} bar at ${bar.timestamp.toISOString()} is out of order or duplicated`
+      );
+    }
+    prev = time;
+
+    const start = alignToBarInterval(time, interval);
+    const end = addBarInterval(time, source);
+    if (addBarInterval(start, interval) >= end) {
+      if (bucket !== undefined && bucket.timestamp.getTime() === start) {
+        bucket.high = Math.max(bucket.high, bar.high);
+        bucket.low = Math.min(bucket.low, bar.low);
+        bucket.close = bar.close;
+        bucket.volume += bar.volume;
+      } else {
+        bucket = { ...bar, timestamp: new Date(start), interval };
+        result.push(bucket);
+      }
+      continue;
+    }
+
+    const starts: number[] = [];
+    let sub = start;
+    if (start === time) {
+      for (; sub < end; sub = addBarInterval(sub, interval)) starts.push(sub);
+    }
+    if (sub !== end) {
+      throw new RangeError(`Cannot resample ${source} bars to ${interval}`);
+    }
+    starts.forEach((t, i) => {
+      result.push({
+        ...bar,
+        close: i === starts.length - 1 ? bar.close : bar.open,
+        volume: bar.volume / starts.length,
+        timestamp: new Date(t),
+        interval,
+      });
+    });
+    bucket = undefined;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Order Book (L2)
+// ============================================================================
+
+export const OrderBookLevelWireSchema = z.object({
+  price: z.number(),
+  // Zero removes the level in an incremental update
+  size: z.number().nonnegative(),
+  orders: z.number().int().nonnegative().optional(),
+});
+
+// Snapshots replace the book; incremental updates carry only changed levels
+export const OrderBookUpdateWireSchema = z.object({
+  symbol: z.string(),
+  seq: z.number().int().nonnegative(),
+  isSnapshot: z.boolean(),
+  bids: z.array(OrderBookLevelWireSchema),
+  asks: z.array(OrderBookLevelWireSchema),
+  timestamp: z.number(),
+});
+
+export type OrderBookLevelWire = z.infer<typeof OrderBookLevelWireSchema>;
+export type OrderBookUpdateWire = z.infer<typeof OrderBookUpdateWireSchema>;
+
+export interface OrderBookLevel {
+  price: number;
+  size: number;
+  orders?: number;
+}
+
+export interface OrderBook {
+  symbol: string;
+  // Sequence of the last update applied, per symbol
+  seq: number;
+  // Best first: bids descending, asks ascending
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: Date;
+}
+
+export type OrderBookUpdate = OrderBook & { isSnapshot: boolean };
+
+function encodeOrderBookLevel(level: OrderBookLevel): OrderBookLevelWire {
+  const wire: OrderBookLevelWire = { price: level.price, size: level.size };
+  if (level.orders !== undefined) wire.orders = level.orders;
+  return wire;
+}
+
+function decodeOrderBookLevel(wire: OrderBookLevelWire): OrderBookLevel {
+  const level: OrderBookLevel = { price: wire.price, size: wire.size };
+  if (wire.orders !== undefined) level.orders = wire.orders;
+  return level;
+}
+
+export function encodeOrderBookUpdate(
+  update: OrderBookUpdate
+): OrderBookUpdateWire {
+  return {
+    symbol: update.symbol,
+    seq: update.seq,
+    isSnapshot: update.isSnapshot,
+    bids: update.bids.map(encodeOrderBookLevel),
+    asks: update.asks.map(encodeOrderBookLevel),
+    timestamp: update.timestamp.getTime(),
+  };
+}
+
+export function decodeOrderBookUpdate(
+  parsed: OrderBookUpdateWire
+): OrderBookUpdate {
+  return {
+    symbol: parsed.symbol,
+    seq: parsed.seq,
+    isSnapshot: parsed.isSnapshot,
+    bids: parsed.bids.map(decodeOrderBookLevel),
+    asks: parsed.asks.map(decodeOrderBookLevel),
+    timestamp: new Date(parsed.timestamp),
+  };
+}
+
+export const orderBookUpdateSchema = {
+  validate: (data: unknown) => OrderBookUpdateWireSchema.safeParse(data),
+  encode: (update: OrderBookUpdate) => encodeOrderBookUpdate(update),
+  decode: (wire: OrderBookUpdateWire) => decodeOrderBookUpdate(wire),
+};
+
+export type OrderBookError =
+  | {
+      type: "SYMBOL_MISMATCH";
+      expected: string;
+      actual: string;
+    }
+  | {
+      type: "MISSING_SNAPSHOT";
+      seq: number;
+    }
+  | {
+      type: "OUT_OF_SEQUENCE";
+      expected: number;
+      actual: number;
+    }
+  | {
+      type: "CROSSED_BOOK";
+      bid: number;
+      ask: number;
+    };
+
+export interface OrderBookResult {
+  valid: boolean;
+  errors: OrderBookError[];
+  book: OrderBook | undefined;
+}
+
+// Levels stay sorted best first, so each change is a binary search away
+function applyOrderBookLevels(
+  levels: readonly OrderBookLevel[],
+  changes: readonly OrderBookLevel[],
+  descending: boolean
+): OrderBookLevel[] {
+  const result = [...levels];
+  for (const change of changes) {
+    let lo = 0;
+    let hi = result.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const price = result[mid]!.price;
+      const better = descending ? price > change.price : price < change.price;
+      if (better) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const found = result[lo]?.price === change.price;
+    if (change.size === 0) {
+      if (found) result.splice(lo, 1);
+    } else if (found) {
+      result[lo] = change;
+    } else {
+      result.splice(lo, 0, change);
+    }
+  }
+  return result;
+}
+
+// Incremental updates must follow the book's seq exactly. A gap or a crossed
+// result means the book can no longer be trusted: nothing is applied and the
+// caller should resubscribe for a snapshot. Locked books (bid == ask) pass.
+export function applyOrderBookUpdate(
+  book: OrderBook | undefined,
+  update: OrderBookUpdate
+): OrderBookResult {
+  const reject = (error: OrderBookError): OrderBookResult => ({
+    valid: false,
+    errors: [error],
+    book,
+  });
+
+  if (!update.isSnapshot) {
+    if (book === undefined) {
+      return reject({ type: "MISSING_SNAPSHOT", seq: update.seq });
+    }
+    if (book.symbol !== update.symbol) {
+      return reject({
+        type: "SYMBOL_MISMATCH",
+        expected: book.symbol,
+        actual: update.symbol,
+      });
+    }
+    if (update.seq !== book.seq + 1) {
+      return reject({
+        type: "OUT_OF_SEQUENCE",
+        expected: book.seq + 1,
+        actual: update.seq,
+      });
+    }
+  }
+
+  const base = update.isSnapshot ? undefined : book;
+  const next: OrderBook = {
+    symbol: update.symbol,
+    seq: update.seq,
+    bids: applyOrderBookLevels(base?.bids ?? [], update.bids, true),
+    asks: applyOrderBookLevels(base?.asks ?? [], update.asks, false),
+    timestamp: update.timestamp,
+  };
+
+  const bid = next.bids[0]?.price;
+  const ask = next.asks[0]?.price;
+  if (bid !== undefined && ask !== undefined && bid > ask) {
+    return reject({ type: "CROSSED_BOOK", bid, ask });
+  }
+
+  return { valid: true, errors: [], book: next };
+}
+
 // ============================================================================
 // Order Types
 // ============================================================================
@@ -309,8 +1086,98 @@ export function decodeOrder(parsed: OrderWire): Order {
   return order as Order;
 }
 
+export type OrderInvariant =
+  | "INVALID_QUANTITY"
+  | "INVALID_PRICE"
+  | "INVALID_STOP_PRICE"
+  | "MISSING_PRICE"
+  | "UNEXPECTED_PRICE"
+  | "MISSING_STOP_PRICE"
+  | "UNEXPECTED_STOP_PRICE"
+  | "INVALID_ACTION";
+
+const ORDER_PRICE_FIELDS: Record<
+  OrderType,
+  { price: boolean; stopPrice: boolean }
+> = {
+  MARKET: { price: false, stopPrice: false },
+  LIMIT: { price: true, stopPrice: false },
+  STOP: { price: false, stopPrice: true },
+  STOP_LIMIT: { price: true, stopPrice: true },
+};
+
+const ORDER_EFFECTS: Record<OrderSide, readonly PositionEffect[]> = {
+  BUY: ["OPEN_LONG", "CLOSE_SHORT"],
+  SELL: ["CLOSE_LONG", "OPEN_SHORT"],
+};
+
+type OrderFieldsWire = Omit<PartialOrderWire, "id">;
+
+// Shared by Order, PartialOrder and OrderState; absent fields are skipped
+function refineOrderFields(
+  order: OrderFieldsWire,
+  ctx: z.RefinementCtx,
+  requirePrices: boolean
+) {
+  const fail = invariantReporter<OrderInvariant>(ctx);
+
+  if (order.quantity !== undefined && !(order.quantity > 0)) {
+    fail("INVALID_QUANTITY", "quantity", `quantity ${order.quantity} <= 0`);
+  }
+  if (order.price !== undefined && !(order.price > 0)) {
+    fail("INVALID_PRICE", "price", `price ${order.price} <= 0`);
+  }
+  if (order.stopPrice !== undefined && !(order.stopPrice > 0)) {
+    fail(
+      "INVALID_STOP_PRICE",
+      "stopPrice",
+      `stopPrice ${order.stopPrice} <= 0`
+    );
+  }
+
+  if (order.side !== undefined && order.effect !== undefined) {
+    if (!ORDER_EFFECTS[order.side].includes(order.effect)) {
+      fail(
+        "INVALID_ACTION",
+        "effect",
+        `${order.side} cannot have effect ${order.effect}`
+      );
+    }
+  }
+
+  if (order.type === undefined) return;
+  const fields = ORDER_PRICE_FIELDS[order.type];
+  if (order.price === undefined) {
+    if (fields.price && requirePrices) {
+      fail("MISSING_PRICE", "price", `${order.type} order requires price`);
+    }
+  } else if (!fields.price) {
+    fail("UNEXPECTED_PRICE", "price", `${order.type} order cannot have price`);
+  }
+  if (order.stopPrice === undefined) {
+    if (fields.stopPrice && requirePrices) {
+      fail(
+        "MISSING_STOP_PRICE",
+        "stopPrice",
+        `${order.type} order requires stopPrice`
+      );
+    }
+  } else if (!fields.stopPrice) {
+    fail(
+      "UNEXPECTED_STOP_PRICE",
+      "stopPrice",
+      `${order.type} order cannot have stopPrice`
+    );
+  }
+}
+
+export const OrderStrictWireSchema = OrderWireSchema.superRefine((order, ctx) =>
+  refineOrderFields(order, ctx, true)
+);
+
 export const orderSchema = {
   validate: (data: unknown) => OrderWireSchema.safeParse(data),
+  validateStrict: (data: unknown) => OrderStrictWireSchema.safeParse(data),
   encode: (order: Order) => encodeOrder(order),
   decode: (wire: OrderWire) => decodeOrder(wire),
 };
@@ -369,8 +1236,15 @@ export function decodePartialOrder(parsed: PartialOrderWire): PartialOrder {
   return order;
 }
 
+// Amendments may omit prices, so only forbidden fields are checked against type
+export const PartialOrderStrictWireSchema = PartialOrderWireSchema.superRefine(
+  (order, ctx) => refineOrderFields(order, ctx, false)
+);
+
 export const partialOrderSchema = {
   validate: (data: unknown) => PartialOrderWireSchema.safeParse(data),
+  validateStrict: (data: unknown) =>
+    PartialOrderStrictWireSchema.safeParse(data),
   encode: (order: PartialOrder) => encodePartialOrder(order),
   decode: (wire: PartialOrderWire) => decodePartialOrder(wire),
 };
@@ -458,59 +1332,357 @@ export function decodeOrderState(parsed: OrderStateWire): OrderState {
   return state as OrderState;
 }
 
+export type OrderStateInvariant =
+  | OrderInvariant
+  | "INVALID_FILLED_QUANTITY"
+  | "QUANTITY_MISMATCH"
+  | "FILLED_NOT_COMPLETE"
+  | "PARTIAL_NOT_FILLED";
+
+// Default relative tolerance for float sums such as filled + remaining
+export const DEFAULT_TOLERANCE = 1e-9;
+
+export function approxEqual(
+  a: number,
+  b: number,
+  tolerance: number = DEFAULT_TOLERANCE
+): boolean {
+  return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+export const OrderStateStrictWireSchema = OrderStateWireSchema.superRefine(
+  (state, ctx) => {
+    refineOrderFields(state, ctx, true);
+    const fail = invariantReporter<OrderStateInvariant>(ctx);
+
+    if (state.filledQuantity < 0) {
+      fail(
+        "INVALID_FILLED_QUANTITY",
+        "filledQuantity",
+        `filledQuantity ${state.filledQuantity} < 0`
+      );
+    }
+    const total = state.filledQuantity + state.remainingQuantity;
+    if (!approxEqual(total, state.quantity)) {
+      fail(
+        "QUANTITY_MISMATCH",
+        "remainingQuantity",
+        `filled ${state.filledQuantity} + remaining ${state.remainingQuantity} != quantity ${state.quantity}`
+      );
+    }
+    if (state.status === "FILLED" && state.remainingQuantity !== 0) {
+      fail(
+        "FILLED_NOT_COMPLETE",
+        "remainingQuantity",
+        `FILLED order has remainingQuantity ${state.remainingQuantity}`
+      );
+    }
+    if (state.status === "PARTIAL" && !(state.filledQuantity > 0)) {
+      fail(
+        "PARTIAL_NOT_FILLED",
+        "filledQuantity",
+        `PARTIAL order has filledQuantity ${state.filledQuantity}`
+      );
+    }
+  }
+);
+
 export const orderStateSchema = {
   validate: (data: unknown) => OrderStateWireSchema.safeParse(data),
+  validateStrict: (data: unknown) => OrderStateStrictWireSchema.safeParse(data),
   encode: (state: OrderState) => encodeOrderState(state),
   decode: (wire: OrderStateWire) => decodeOrderState(wire),
 };
 
-// ============================================================================
-// Fill
-// ============================================================================
+// Self-transitions carry updates that do not change status
+export const ORDER_STATUS_TRANSITIONS: Readonly<
+  Record<OrderStatus, readonly OrderStatus[]>
+> = {
+  PENDING: ["PENDING", "OPEN", "PARTIAL", "FILLED", "CANCELLED", "REJECT"],
+  OPEN: ["OPEN", "PARTIAL", "FILLED", "CANCELLED"],
+  PARTIAL: ["PARTIAL", "FILLED", "CANCELLED"],
+  FILLED: ["FILLED"],
+  CANCELLED: ["CANCELLED"],
+  REJECT: ["REJECT"],
+};
 
-export const FillWireSchema = OrderActionSchema.and(
-  z.object({
-    id: z.string(),
-    orderId: z.string(),
-    symbol: z.string(),
-    quantity: z.number(),
-    price: z.number(),
-    commission: z.number(),
-    created: z.number(),
-  })
-);
+export type OrderTransitionError =
+  | {
+      type: "ORDER_MISMATCH";
+      field: "id" | "symbol" | "side" | "effect";
+    }
+  | {
+      type: "ILLEGAL_STATUS_TRANSITION";
+      from: OrderStatus;
+      to: OrderStatus;
+    }
+  | {
+      type: "MODIFIED_REGRESSED";
+      prev: Date;
+      next: Date;
+    }
+  | {
+      type: "FILLED_QUANTITY_REGRESSED";
+      prev: number;
+      next: number;
+    };
 
-export type FillWire = z.infer<typeof FillWireSchema>;
+export interface OrderTransitionResult {
+  valid: boolean;
+  errors: OrderTransitionError[];
+}
 
-export function encodeFill(fill: Fill): FillWire {
-  if (fill.side === "BUY") {
-    return {
-      id: fill.id,
-      orderId: fill.orderId,
-      symbol: fill.symbol,
-      side: "BUY" as const,
-      effect: fill.effect as "OPEN_LONG" | "CLOSE_SHORT",
-      quantity: fill.quantity,
-      price: fill.price,
-      commission: fill.commission,
-      created: fill.created.getTime(),
-    } as FillWire;
-  } else {
-    return {
-      id: fill.id,
-      orderId: fill.orderId,
-      symbol: fill.symbol,
-      side: "SELL" as const,
-      effect: fill.effect as "CLOSE_LONG" | "OPEN_SHORT",
-      quantity: fill.quantity,
-      price: fill.price,
-      commission: fill.commission,
-      created: fill.created.getTime(),
-    } as FillWire;
+export function validateTransition(
+  prev: OrderState,
+  next: OrderState
+): OrderTransitionResult {
+  const errors: OrderTransitionError[] = [];
+
+  for (const field of ["id", "symbol", "side", "effect"] as const) {
+    if (prev[field] !== next[field]) {
+      errors.push({ type: "ORDER_MISMATCH", field });
+    }
+  }
+  if (!ORDER_STATUS_TRANSITIONS[prev.status].includes(next.status)) {
+    errors.push({
+      type: "ILLEGAL_STATUS_TRANSITION",
+      from: prev.status,
+      to: next.status,
+    });
   }
+  if (next.modified.getTime() < prev.modified.getTime()) {
+    errors.push({
+      type: "MODIFIED_REGRESSED",
+      prev: prev.modified,
+      next: next.modified,
+    });
+  }
+  if (next.filledQuantity < prev.filledQuantity) {
+    errors.push({
+      type: "FILLED_QUANTITY_REGRESSED",
+      prev: prev.filledQuantity,
+      next: next.filledQuantity,
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
 }
 
-export function decodeFill(parsed: FillWire): Fill {
+// ============================================================================
+// Order Amendments
+// ============================================================================
+
+const AMENDABLE_ORDER_FIELDS = [
+  "symbol",
+  "side",
+  "effect",
+  "type",
+  "quantity",
+  "price",
+  "stopPrice",
+  "created",
+] as const;
+
+export type OrderAmendError =
+  | {
+      type: "ORDER_MISMATCH";
+      field: "id";
+    }
+  | {
+      type: "ORDER_NOT_LIVE";
+      status: OrderStatus;
+    }
+  | {
+      type: "IMMUTABLE_FIELD";
+      field: "symbol" | "side";
+    }
+  | {
+      type: "QUANTITY_BELOW_FILLED";
+      quantity: number;
+      filledQuantity: number;
+    }
+  | {
+      type: "INVALID_ORDER";
+      // OrderState invariants are only checked when amending an OrderState
+      invariants: OrderStateInvariant[];
+    };
+
+export interface OrderAmendResult<T extends Order> {
+  valid: boolean;
+  errors: OrderAmendError[];
+  order: T;
+}
+
+// Field by field, so a side/effect mismatch reports INVALID_ACTION instead of
+// failing the OrderAction union
+const AmendedOrderWireSchema = PartialOrderWireSchema.superRefine(
+  (order, ctx) => refineOrderFields(order, ctx, true)
+);
+
+// Terminal statuses only transition to themselves
+function isLiveStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length > 1;
+}
+
+// An Order without state has not been placed yet, so any field may change.
+// On a live OrderState symbol and side are fixed, and remainingQuantity and
+// status are rederived from the amended quantity: cutting it to the filled
+// quantity completes the order.
+export function applyPartialOrder<T extends Order>(
+  order: T,
+  partial: PartialOrder
+): OrderAmendResult<T> {
+  const errors: OrderAmendError[] = [];
+
+  if (partial.id !== order.id) {
+    errors.push({ type: "ORDER_MISMATCH", field: "id" });
+  }
+  const changes = Object.fromEntries(
+    AMENDABLE_ORDER_FIELDS.flatMap((field) =>
+      partial[field] === undefined ? [] : [[field, partial[field]]]
+    )
+  );
+  // A new side or effect may not pair up; the strict check reports that
+  let amended = { ...order, ...changes } as Order;
+
+  // Prices the new type has no use for are dropped, so a diffOrders payload
+  // that changes type applies cleanly
+  if (partial.type !== undefined) {
+    const fields = ORDER_PRICE_FIELDS[partial.type];
+    if (!fields.price && partial.price === undefined) delete amended.price;
+    if (!fields.stopPrice && partial.stopPrice === undefined) {
+      delete amended.stopPrice;
+    }
+  }
+
+  const invariants = new Set<OrderStateInvariant>();
+  const strict = AmendedOrderWireSchema.safeParse(encodeOrder(amended));
+  if (!strict.success) {
+    getInvariants<OrderInvariant>(strict.error).forEach((invariant) =>
+      invariants.add(invariant)
+    );
+  }
+
+  if ("status" in order) {
+    const state = order as unknown as OrderState;
+    const live = isLiveStatus(state.status);
+    if (!live) {
+      errors.push({ type: "ORDER_NOT_LIVE", status: state.status });
+    }
+    for (const field of ["symbol", "side"] as const) {
+      if (amended[field] !== state[field]) {
+        errors.push({ type: "IMMUTABLE_FIELD", field });
+      }
+    }
+    if (amended.quantity < state.filledQuantity) {
+      errors.push({
+        type: "QUANTITY_BELOW_FILLED",
+        quantity: amended.quantity,
+        filledQuantity: state.filledQuantity,
+      });
+    }
+
+    const complete =
+      state.filledQuantity > 0 &&
+      approxEqual(amended.quantity, state.filledQuantity);
+    const amendedState: OrderState = {
+      ...(amended as OrderState),
+      remainingQuantity: complete ? 0 : amended.quantity - state.filledQuantity,
+      status: live
+        ? reconciledStatus(state.status, state.filledQuantity, complete)
+        : state.status,
+    };
+    const stateStrict = OrderStateStrictWireSchema.safeParse(
+      encodeOrderState(amendedState)
+    );
+    if (!stateStrict.success) {
+      getInvariants<OrderStateInvariant>(stateStrict.error).forEach(
+        (invariant) => invariants.add(invariant)
+      );
+    }
+    amended = amendedState;
+  }
+
+  if (invariants.size > 0) {
+    errors.push({ type: "INVALID_ORDER", invariants: [...invariants] });
+  }
+
+  return { valid: errors.length === 0, errors, order: amended as T };
+}
+
+// Minimal amendment taking a to b; only fields that changed are included
+export function diffOrders(a: Order, b: Order): PartialOrder {
+  if (a.id !== b.id) {
+    throw new RangeError(`Cannot diff orders ${a.id} and ${b.id}`);
+  }
+
+  const partial: PartialOrder = { id: b.id };
+  const set = <F extends keyof PartialOrder>(
+    field: F,
+    value: PartialOrder[F]
+  ) => {
+    partial[field] = value;
+  };
+  for (const field of AMENDABLE_ORDER_FIELDS) {
+    const prev = a[field];
+    const next = b[field];
+    const changed =
+      prev instanceof Date && next instanceof Date
+        ? prev.getTime() !== next.getTime()
+        : prev !== next;
+    if (changed && next !== undefined) set(field, next);
+  }
+
+  return partial;
+}
+
+// ============================================================================
+// Fill
+// ============================================================================
+
+export const FillWireSchema = OrderActionSchema.and(
+  z.object({
+    id: z.string(),
+    orderId: z.string(),
+    symbol: z.string(),
+    quantity: z.number(),
+    price: z.number(),
+    commission: z.number(),
+    created: z.number(),
+  })
+);
+
+export type FillWire = z.infer<typeof FillWireSchema>;
+
+export function encodeFill(fill: Fill): FillWire {
+  if (fill.side === "BUY") {
+    return {
+      id: fill.id,
+      orderId: fill.orderId,
+      symbol: fill.symbol,
+      side: "BUY" as const,
+      effect: fill.effect as "OPEN_LONG" | "CLOSE_SHORT",
+      quantity: fill.quantity,
+      price: fill.price,
+      commission: fill.commission,
+      created: fill.created.getTime(),
+    } as FillWire;
+  } else {
+    return {
+      id: fill.id,
+      orderId: fill.orderId,
+      symbol: fill.symbol,
+      side: "SELL" as const,
+      effect: fill.effect as "CLOSE_LONG" | "OPEN_SHORT",
+      quantity: fill.quantity,
+      price: fill.price,
+      commission: fill.commission,
+      created: fill.created.getTime(),
+    } as FillWire;
+  }
+}
+
+export function decodeFill(parsed: FillWire): Fill {
   if (parsed.side === "BUY") {
     return {
       side: "BUY",
@@ -544,6 +1716,158 @@ export const fillSchema = {
   decode: (wire: FillWire) => decodeFill(wire),
 };
 
+// ============================================================================
+// Fill Reconciliation
+// ============================================================================
+
+export type FillReconciliationError =
+  | {
+      type: "ORDER_MISMATCH";
+      fillId: string;
+      field: "orderId" | "symbol" | "side" | "effect";
+    }
+  | {
+      type: "DUPLICATE_FILL";
+      fillId: string;
+    }
+  | {
+      type: "OVERFILL";
+      fillId: string;
+      filledQuantity: number;
+      quantity: number;
+    }
+  | {
+      type: "LIMIT_VIOLATION";
+      fillId: string;
+      price: number;
+      limit: number;
+    };
+
+export interface FillReconciliationOptions {
+  // Relative tolerance for quantity sums and limit price comparisons
+  tolerance?: number;
+}
+
+export interface FillReconciliationResult {
+  valid: boolean;
+  errors: FillReconciliationError[];
+  // Expected state of the order given exactly these fills
+  state: OrderState;
+  // Volume-weighted fill price, undefined without fills
+  averagePrice: number | undefined;
+  commission: number;
+}
+
+function reconciledStatus(
+  base: OrderStatus | undefined,
+  filledQuantity: number,
+  complete: boolean
+): OrderStatus {
+  if (complete) return "FILLED";
+  // Cancelled or rejected before completing stays that way
+  if (base === "CANCELLED" || base === "REJECT") return base;
+  if (filledQuantity > 0) return "PARTIAL";
+  if (base === "PENDING" || base === "OPEN") return base;
+  // Nothing filled behind a PARTIAL/FILLED state; a bare Order is unplaced
+  return base === undefined ? "PENDING" : "OPEN";
+}
+
+// Fills for another order are reported and left out of the derived state.
+// Duplicates (same fill id) count once. Overfills and limit violations are
+// reported but still counted, since the broker did execute them.
+export function reconcileFills(
+  order: Order | OrderState,
+  fills: readonly Fill[],
+  options: FillReconciliationOptions = {}
+): FillReconciliationResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const errors: FillReconciliationError[] = [];
+  const base = "status" in order ? order : undefined;
+  const limit = ORDER_PRICE_FIELDS[order.type].price ? order.price : undefined;
+  const exceeds = (value: number, bound: number) =>
+    value > bound && !approxEqual(value, bound, tolerance);
+  const seen = new Set<string>();
+  let filledQuantity = 0;
+  let notional = 0;
+  let commission = 0;
+  let overfilled = false;
+  let modified = base?.modified ?? order.created;
+
+  // Cumulative checks follow execution order
+  const sorted = [...fills].sort(
+    (a, b) => a.created.getTime() - b.created.getTime()
+  );
+
+  for (const fill of sorted) {
+    const fillId = fill.id;
+    const mismatch = (["orderId", "symbol", "side", "effect"] as const).find(
+      (field) => fill[field] !== (field === "orderId" ? order.id : order[field])
+    );
+    if (mismatch !== undefined) {
+      errors.push({ type: "ORDER_MISMATCH", fillId, field: mismatch });
+      continue;
+    }
+    if (seen.has(fillId)) {
+      errors.push({ type: "DUPLICATE_FILL", fillId });
+      continue;
+    }
+    seen.add(fillId);
+
+    filledQuantity += fill.quantity;
+    // Reported once, at the fill that crossed the order quantity
+    if (!overfilled && exceeds(filledQuantity, order.quantity)) {
+      overfilled = true;
+      errors.push({
+        type: "OVERFILL",
+        fillId,
+        filledQuantity,
+        quantity: order.quantity,
+      });
+    }
+
+    if (
+      limit !== undefined &&
+      (order.side === "BUY"
+        ? exceeds(fill.price, limit)
+        : exceeds(limit, fill.price))
+    ) {
+      errors.push({
+        type: "LIMIT_VIOLATION",
+        fillId,
+        price: fill.price,
+        limit,
+      });
+    }
+
+    notional += fill.quantity * fill.price;
+    commission += fill.commission;
+    if (modified === undefined || fill.created > modified) {
+      modified = fill.created;
+    }
+  }
+
+  const complete = !exceeds(order.quantity, filledQuantity);
+  // Float residue within tolerance is snapped away so the state passes strict
+  // validation; an overfill keeps the quantity actually filled
+  const settled = complete && !overfilled ? order.quantity : filledQuantity;
+  const state = {
+    ...order,
+    filledQuantity: settled,
+    remainingQuantity: complete ? 0 : order.quantity - filledQuantity,
+    status: reconciledStatus(base?.status, settled, complete),
+    // Epoch only for an unplaced order without fills or a created time
+    modified: modified ?? new Date(0),
+  } as OrderState;
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    state,
+    averagePrice: filledQuantity > 0 ? notional / filledQuantity : undefined,
+    commission,
+  };
+}
+
 // ============================================================================
 // Position Types
 // ============================================================================
@@ -699,3 +2023,3322 @@ export const positionSchema = {
   encode: (pos: Position) => encodePosition(pos),
   decode: (wire: PositionWire) => decodePosition(wire),
 };
+
+// ============================================================================
+// Position Integrity
+// ============================================================================
+
+export type PositionType = "LONG" | "SHORT";
+
+export type PositionIntegrityError =
+  | {
+      type: "QUANTITY_MISMATCH";
+      symbol: string;
+      positionType: PositionType;
+      expected: number;
+      actual: number;
+    }
+  | {
+      type: "TOTAL_MISMATCH";
+      symbol: string;
+      positionType: PositionType;
+      expected: number;
+      actual: number;
+    }
+  | {
+      type: "INVALID_LOT";
+      symbol: string;
+      positionType: PositionType;
+      lotIndex: number;
+      field: "quantity" | "price";
+      value: number;
+    };
+
+export interface PositionIntegrityResult {
+  valid: boolean;
+  errors: PositionIntegrityError[];
+}
+
+export interface PositionIntegrityOptions {
+  // Relative tolerance when comparing lot sums to position totals
+  tolerance?: number;
+}
+
+function checkLots<L extends { quantity: number; price: number }>(
+  symbol: string,
+  positionType: PositionType,
+  quantity: number,
+  total: number,
+  lots: L[],
+  lotTotal: (lot: L) => number,
+  tolerance: number
+): PositionIntegrityError[] {
+  const errors: PositionIntegrityError[] = [];
+  let lotQuantity = 0;
+  let lotSum = 0;
+
+  lots.forEach((lot, lotIndex) => {
+    for (const field of ["quantity", "price"] as const) {
+      const value = lot[field];
+      if (!Number.isFinite(value) || value < 0) {
+        errors.push({
+          type: "INVALID_LOT",
+          symbol,
+          positionType,
+          lotIndex,
+          field,
+          value,
+        });
+      }
+    }
+    lotQuantity += lot.quantity;
+    lotSum += lotTotal(lot);
+  });
+
+  if (!approxEqual(lotQuantity, quantity, tolerance)) {
+    errors.push({
+      type: "QUANTITY_MISMATCH",
+      symbol,
+      positionType,
+      expected: quantity,
+      actual: lotQuantity,
+    });
+  }
+  if (!approxEqual(lotSum, total, tolerance)) {
+    errors.push({
+      type: "TOTAL_MISMATCH",
+      symbol,
+      positionType,
+      expected: total,
+      actual: lotSum,
+    });
+  }
+
+  return errors;
+}
+
+export function validateLongPositionIntegrity(
+  symbol: string,
+  pos: LongPosition,
+  options: PositionIntegrityOptions = {}
+): PositionIntegrityResult {
+  const errors = checkLots(
+    symbol,
+    "LONG",
+    pos.quantity,
+    pos.totalCost,
+    pos.lots,
+    (lot) => lot.totalCost,
+    options.tolerance ?? DEFAULT_TOLERANCE
+  );
+  return { valid: errors.length === 0, errors };
+}
+
+export function validateShortPositionIntegrity(
+  symbol: string,
+  pos: ShortPosition,
+  options: PositionIntegrityOptions = {}
+): PositionIntegrityResult {
+  const errors = checkLots(
+    symbol,
+    "SHORT",
+    pos.quantity,
+    pos.totalProceeds,
+    pos.lots,
+    (lot) => lot.totalProceeds,
+    options.tolerance ?? DEFAULT_TOLERANCE
+  );
+  return { valid: errors.length === 0, errors };
+}
+
+export function validatePositionIntegrity(
+  pos: Position,
+  options: PositionIntegrityOptions = {}
+): PositionIntegrityResult {
+  const errors: PositionIntegrityError[] = [];
+
+  for (const [symbol, long] of pos.long ?? []) {
+    errors.push(...validateLongPositionIntegrity(symbol, long, options).errors);
+  }
+  for (const [symbol, short] of pos.short ?? []) {
+    errors.push(
+      ...validateShortPositionIntegrity(symbol, short, options).errors
+    );
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ============================================================================
+// Position Patches
+// ============================================================================
+
+// Lots only change at the ends: opens append, FIFO closes shift, LIFO closes
+// pop, and a partial close rewrites the lot it stops in. Applied as
+// [...unshift, ...lots.slice(shift, lots.length - pop), ...push].
+function lotsPatchSchema<L extends z.ZodType>(lot: L) {
+  return z.object({
+    shift: z.number().int().positive().optional(),
+    pop: z.number().int().positive().optional(),
+    unshift: z.array(lot).optional(),
+    push: z.array(lot).optional(),
+  });
+}
+
+export const LongPositionUpdateWireSchema = z.object({
+  quantity: z.number().optional(),
+  totalCost: z.number().optional(),
+  realisedPnL: z.number().optional(),
+  lots: lotsPatchSchema(LongPositionLotSchema).optional(),
+  modified: z.number().optional(),
+});
+
+export const ShortPositionUpdateWireSchema = z.object({
+  quantity: z.number().optional(),
+  totalProceeds: z.number().optional(),
+  realisedPnL: z.number().optional(),
+  lots: lotsPatchSchema(ShortPositionLotSchema).optional(),
+  modified: z.number().optional(),
+});
+
+// Added entries replace any existing entry for the symbol
+function positionSidePatchSchema<E extends z.ZodType, U extends z.ZodType>(
+  entry: E,
+  update: U
+) {
+  return z.object({
+    added: z.record(z.string(), entry).optional(),
+    updated: z.record(z.string(), update).optional(),
+    removed: z.array(z.string()).optional(),
+  });
+}
+
+export const PositionPatchWireSchema = z.object({
+  // Patch n applies to the snapshot at n - 1; snapshots start at 0
+  seq: z.number().int().positive(),
+  cash: z.number().optional(),
+  totalCommission: z.number().optional(),
+  realisedPnL: z.number().optional(),
+  long: positionSidePatchSchema(
+    LongPositionWireSchema,
+    LongPositionUpdateWireSchema
+  ).optional(),
+  short: positionSidePatchSchema(
+    ShortPositionWireSchema,
+    ShortPositionUpdateWireSchema
+  ).optional(),
+  modified: z.number(),
+});
+
+export type LongPositionUpdateWire = z.infer<
+  typeof LongPositionUpdateWireSchema
+>;
+export type ShortPositionUpdateWire = z.infer<
+  typeof ShortPositionUpdateWireSchema
+>;
+export type PositionPatchWire = z.infer<typeof PositionPatchWireSchema>;
+
+interface LotsPatch<L> {
+  shift?: number | undefined;
+  pop?: number | undefined;
+  unshift?: L[] | undefined;
+  push?: L[] | undefined;
+}
+
+function sameLot<L extends object>(a: L, b: L): boolean {
+  const x = a as Record<string, unknown>;
+  const y = b as Record<string, unknown>;
+  const keys = Object.keys(x);
+  return (
+    keys.length === Object.keys(y).length && keys.every((k) => x[k] === y[k])
+  );
+}
+
+// Keeps the longest run of lots common to both sides and patches around it
+function diffLots<L extends object>(
+  prev: L[],
+  next: L[]
+): LotsPatch<L> | undefined {
+  let best = { length: 0, prevEnd: 0, nextEnd: 0 };
+  let run = new Array<number>(next.length + 1).fill(0);
+  for (let i = 1; i <= prev.length; i++) {
+    const row = new Array<number>(next.length + 1).fill(0);
+    for (let j = 1; j <= next.length; j++) {
+      if (!sameLot(prev[i - 1]!, next[j - 1]!)) continue;
+      const length = run[j - 1]! + 1;
+      row[j] = length;
+      if (length > best.length) best = { length, prevEnd: i, nextEnd: j };
+    }
+    run = row;
+  }
+
+  const patch: LotsPatch<L> = {};
+  const shift = best.prevEnd - best.length;
+  const pop = prev.length - best.prevEnd;
+  const unshift = next.slice(0, best.nextEnd - best.length);
+  const push = next.slice(best.nextEnd);
+  if (shift > 0) patch.shift = shift;
+  if (pop > 0) patch.pop = pop;
+  if (unshift.length > 0) patch.unshift = unshift;
+  if (push.length > 0) patch.push = push;
+  return Object.keys(patch).length > 0 ? patch : undefined;
+}
+
+function applyLots<L>(lots: L[], patch: LotsPatch<L>): L[] | undefined {
+  const shift = patch.shift ?? 0;
+  const pop = patch.pop ?? 0;
+  if (shift + pop > lots.length) return undefined;
+  return [
+    ...(patch.unshift ?? []),
+    ...lots.slice(shift, lots.length - pop),
+    ...(patch.push ?? []),
+  ];
+}
+
+// F names the scalar fields of one side: quantity, its cost or proceeds total
+// and realisedPnL
+type PositionEntry<F extends string, L> = Record<F, number> & {
+  lots: L[];
+  modified: Date;
+};
+
+// Optional fields admit undefined to match the inferred wire types
+type PositionEntryUpdate<F extends string, L> = Partial<
+  Record<F, number | undefined>
+> & {
+  lots?: LotsPatch<L> | undefined;
+  modified?: number | undefined;
+};
+
+interface PositionSidePatch<F extends string, L, W> {
+  added?: Record<string, W> | undefined;
+  updated?: Record<string, PositionEntryUpdate<F, L>> | undefined;
+  removed?: string[] | undefined;
+}
+
+interface PositionSide<
+  F extends string,
+  L extends object,
+  E extends PositionEntry<F, L>,
+  W,
+> {
+  positionType: PositionType;
+  fields: readonly F[];
+  encode: (entry: E) => W;
+  decode: (wire: W) => E;
+}
+
+const LONG_POSITION_SIDE: PositionSide<
+  "quantity" | "totalCost" | "realisedPnL",
+  LongPositionLot,
+  LongPosition,
+  LongPositionWire
+> = {
+  positionType: "LONG",
+  fields: ["quantity", "totalCost", "realisedPnL"],
+  encode: encodeLongPosition,
+  decode: decodeLongPosition,
+};
+
+const SHORT_POSITION_SIDE: PositionSide<
+  "quantity" | "totalProceeds" | "realisedPnL",
+  ShortPositionLot,
+  ShortPosition,
+  ShortPositionWire
+> = {
+  positionType: "SHORT",
+  fields: ["quantity", "totalProceeds", "realisedPnL"],
+  encode: encodeShortPosition,
+  decode: decodeShortPosition,
+};
+
+function diffPositionSide<
+  F extends string,
+  L extends object,
+  E extends PositionEntry<F, L>,
+  W,
+>(
+  side: PositionSide<F, L, E, W>,
+  prev: Map<string, E> | undefined,
+  next: Map<string, E> | undefined
+): PositionSidePatch<F, L, W> | undefined {
+  const patch: PositionSidePatch<F, L, W> = {};
+
+  for (const [symbol, entry] of next ?? []) {
+    const base = prev?.get(symbol);
+    if (base === undefined) {
+      (patch.added ??= {})[symbol] = side.encode(entry);
+      continue;
+    }
+
+    const values: Partial<Record<F, number>> = {};
+    for (const field of side.fields) {
+      const value: number = entry[field];
+      if (base[field] !== value) values[field] = value;
+    }
+    const update: PositionEntryUpdate<F, L> = values;
+    const lots = diffLots(base.lots, entry.lots);
+    if (lots) update.lots = lots;
+    if (base.modified.getTime() !== entry.modified.getTime()) {
+      update.modified = entry.modified.getTime();
+    }
+    if (Object.keys(update).length > 0) {
+      (patch.updated ??= {})[symbol] = update;
+    }
+  }
+
+  for (const symbol of prev?.keys() ?? []) {
+    if (!next?.has(symbol)) (patch.removed ??= []).push(symbol);
+  }
+
+  return Object.keys(patch).length > 0 ? patch : undefined;
+}
+
+// Only what changed between two snapshots; seq numbers the resulting snapshot
+export function diffPosition(
+  prev: Position,
+  next: Position,
+  seq: number
+): PositionPatchWire {
+  const patch: PositionPatchWire = { seq, modified: next.modified.getTime() };
+
+  for (const field of ["cash", "totalCommission", "realisedPnL"] as const) {
+    if (prev[field] !== next[field]) patch[field] = next[field];
+  }
+  const long = diffPositionSide(LONG_POSITION_SIDE, prev.long, next.long);
+  if (long) patch.long = long;
+  const short = diffPositionSide(SHORT_POSITION_SIDE, prev.short, next.short);
+  if (short) patch.short = short;
+
+  return patch;
+}
+
+export type PositionPatchError =
+  | {
+      type: "OUT_OF_SEQUENCE";
+      expected: number;
+      actual: number;
+    }
+  | {
+      type: "UNKNOWN_SYMBOL";
+      symbol: string;
+      positionType: PositionType;
+    }
+  | {
+      type: "LOT_UNDERFLOW";
+      symbol: string;
+      positionType: PositionType;
+    };
+
+export interface PositionPatchResult {
+  valid: boolean;
+  errors: PositionPatchError[];
+  position: Position;
+}
+
+function applyPositionSide<
+  F extends string,
+  L extends object,
+  E extends PositionEntry<F, L>,
+  W,
+>(
+  side: PositionSide<F, L, E, W>,
+  entries: Map<string, E> | undefined,
+  patch: PositionSidePatch<F, L, W> | undefined,
+  errors: PositionPatchError[]
+): Map<string, E> | undefined {
+  if (patch === undefined) return entries;
+  const { positionType } = side;
+  const result = new Map(entries);
+
+  for (const symbol of patch.removed ?? []) {
+    if (!result.delete(symbol)) {
+      errors.push({ type: "UNKNOWN_SYMBOL", symbol, positionType });
+    }
+  }
+
+  for (const [symbol, update] of Object.entries(patch.updated ?? {})) {
+    const base = result.get(symbol);
+    if (base === undefined) {
+      errors.push({ type: "UNKNOWN_SYMBOL", symbol, positionType });
+      continue;
+    }
+
+    const lots =
+      update.lots === undefined ? base.lots : applyLots(base.lots, update.lots);
+    if (lots === undefined) {
+      errors.push({ type: "LOT_UNDERFLOW", symbol, positionType });
+      continue;
+    }
+    const values: Partial<Record<F, number>> = {};
+    for (const field of side.fields) {
+      const value = update[field];
+      if (value !== undefined) values[field] = value;
+    }
+    result.set(symbol, {
+      ...base,
+      ...values,
+      lots,
+      modified:
+        update.modified === undefined
+          ? base.modified
+          : new Date(update.modified),
+    });
+  }
+
+  for (const [symbol, wire] of Object.entries(patch.added ?? {})) {
+    result.set(symbol, side.decode(wire));
+  }
+
+  return result.size > 0 ? result : undefined;
+}
+
+// seq is the sequence number of the snapshot being patched. A patch that is
+// not its immediate successor means updates were missed and the client should
+// resync from a full PositionWire. Nothing is applied unless all of it is.
+export function applyPositionPatch(
+  position: Position,
+  patch: PositionPatchWire,
+  seq: number
+): PositionPatchResult {
+  if (patch.seq !== seq + 1) {
+    return {
+      valid: false,
+      errors: [
+        { type: "OUT_OF_SEQUENCE", expected: seq + 1, actual: patch.seq },
+      ],
+      position,
+    };
+  }
+
+  const errors: PositionPatchError[] = [];
+  const long = applyPositionSide(
+    LONG_POSITION_SIDE,
+    position.long,
+    patch.long,
+    errors
+  );
+  const short = applyPositionSide(
+    SHORT_POSITION_SIDE,
+    position.short,
+    patch.short,
+    errors
+  );
+  if (errors.length > 0) return { valid: false, errors, position };
+
+  const next: Position = {
+    cash: patch.cash ?? position.cash,
+    totalCommission: patch.totalCommission ?? position.totalCommission,
+    realisedPnL: patch.realisedPnL ?? position.realisedPnL,
+    modified: new Date(patch.modified),
+  };
+  if (long) next.long = long;
+  if (short) next.short = short;
+
+  return { valid: true, errors, position: next };
+}
+
+// Patches are produced and applied in wire form, so the codec passes them
+// through; createCodecs still formats their timestamps and amounts
+export const positionPatchSchema = {
+  validate: (data: unknown) => PositionPatchWireSchema.safeParse(data),
+  encode: (patch: PositionPatchWire) => patch,
+  decode: (wire: PositionPatchWire) => wire,
+};
+
+// ============================================================================
+// Market Snapshot Deltas
+// ============================================================================
+
+// A feed is a sequence of frames: full keyframes carrying every price, and
+// deltas carrying only what changed since the frame before them
+export const MarketSnapshotDeltaWireSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("full"),
+    seq: z.number().int().nonnegative(),
+    price: z.record(z.string(), z.number()),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("delta"),
+    seq: z.number().int().positive(),
+    baseSeq: z.number().int().nonnegative(),
+    baseTimestamp: z.number(),
+    price: z.record(z.string(), z.number()),
+    removed: z.array(z.string()).optional(),
+    timestamp: z.number(),
+  }),
+]);
+
+export type MarketSnapshotDeltaWire = z.infer<
+  typeof MarketSnapshotDeltaWireSchema
+>;
+
+export type MarketSnapshotDeltaFrame = Extract<
+  MarketSnapshotDeltaWire,
+  { type: "delta" }
+>;
+
+export function diffMarketSnapshot(
+  prev: MarketSnapshot,
+  next: MarketSnapshot,
+  seq: number
+): MarketSnapshotDeltaFrame {
+  const price: Record<string, number> = {};
+  for (const [symbol, value] of next.price) {
+    if (prev.price.get(symbol) !== value) price[symbol] = value;
+  }
+
+  const delta: MarketSnapshotDeltaFrame = {
+    type: "delta",
+    seq,
+    baseSeq: seq - 1,
+    baseTimestamp: prev.timestamp.getTime(),
+    price,
+    timestamp: next.timestamp.getTime(),
+  };
+  const removed = [...prev.price.keys()].filter((s) => !next.price.has(s));
+  if (removed.length > 0) delta.removed = removed;
+  return delta;
+}
+
+export function applyMarketSnapshotDelta(
+  prev: MarketSnapshot,
+  delta: MarketSnapshotDeltaFrame
+): MarketSnapshot {
+  const price = new Map(prev.price);
+  for (const symbol of delta.removed ?? []) price.delete(symbol);
+  for (const [symbol, value] of Object.entries(delta.price)) {
+    price.set(symbol, value);
+  }
+  return { price, timestamp: new Date(delta.timestamp) };
+}
+
+export interface SnapshotDeltaOptions {
+  // Frames from one keyframe to the next; 1 sends every frame in full
+  keyframeInterval?: number;
+  // Send a keyframe instead when more than this share of symbols changed
+  maxChangeRatio?: number;
+}
+
+export function createSnapshotDeltaEncoder(options: SnapshotDeltaOptions = {}) {
+  const keyframeInterval = options.keyframeInterval ?? 100;
+  const maxChangeRatio = options.maxChangeRatio ?? 0.5;
+  let prev: MarketSnapshot | undefined;
+  let seq = -1;
+  let sinceKeyframe = 0;
+
+  return {
+    encode(snapshot: MarketSnapshot): MarketSnapshotDeltaWire {
+      seq++;
+      if (prev !== undefined && sinceKeyframe < keyframeInterval) {
+        const delta = diffMarketSnapshot(prev, snapshot, seq);
+        const changed =
+          Object.keys(delta.price).length + (delta.removed?.length ?? 0);
+        if (changed <= maxChangeRatio * snapshot.price.size) {
+          prev = snapshot;
+          sinceKeyframe++;
+          return delta;
+        }
+      }
+
+      prev = snapshot;
+      sinceKeyframe = 1;
+      return {
+        type: "full",
+        seq,
+        ...encodeMarketSnapshot(snapshot),
+      };
+    },
+    // Forces the next frame to be a keyframe, e.g. when a client joins late
+    keyframe() {
+      prev = undefined;
+    },
+  };
+}
+
+export type SnapshotDeltaEncoder = ReturnType<
+  typeof createSnapshotDeltaEncoder
+>;
+
+export type SnapshotDeltaError =
+  | {
+      type: "MISSING_KEYFRAME";
+      seq: number;
+    }
+  | {
+      type: "OUT_OF_SEQUENCE";
+      expected: number;
+      actual: number;
+    }
+  | {
+      type: "BASE_MISMATCH";
+      expected: number;
+      actual: number;
+    };
+
+export interface SnapshotDeltaResult {
+  valid: boolean;
+  errors: SnapshotDeltaError[];
+  // Undefined until a keyframe arrives, and again after any error
+  snapshot: MarketSnapshot | undefined;
+}
+
+// Deltas only apply on top of the frame right before them. After a missed
+// or mismatched frame the decoder drops its state and waits for a keyframe.
+export function createSnapshotDeltaDecoder() {
+  let snapshot: MarketSnapshot | undefined;
+  let seq = -1;
+
+  const fail = (error: SnapshotDeltaError): SnapshotDeltaResult => {
+    snapshot = undefined;
+    return { valid: false, errors: [error], snapshot };
+  };
+
+  return {
+    decode(frame: MarketSnapshotDeltaWire): SnapshotDeltaResult {
+      if (frame.type === "full") {
+        snapshot = decodeMarketSnapshot(frame);
+      } else {
+        if (snapshot === undefined) {
+          return fail({ type: "MISSING_KEYFRAME", seq: frame.seq });
+        }
+        if (frame.baseSeq !== seq) {
+          return fail({
+            type: "OUT_OF_SEQUENCE",
+            expected: seq,
+            actual: frame.baseSeq,
+          });
+        }
+        if (frame.baseTimestamp !== snapshot.timestamp.getTime()) {
+          return fail({
+            type: "BASE_MISMATCH",
+            expected: snapshot.timestamp.getTime(),
+            actual: frame.baseTimestamp,
+          });
+        }
+        snapshot = applyMarketSnapshotDelta(snapshot, frame);
+      }
+
+      seq = frame.seq;
+      return { valid: true, errors: [], snapshot };
+    },
+  };
+}
+
+// Frames are produced and consumed in wire form, like position patches
+export const marketSnapshotDeltaSchema = {
+  validate: (data: unknown) => MarketSnapshotDeltaWireSchema.safeParse(data),
+  encode: (frame: MarketSnapshotDeltaWire) => frame,
+  decode: (wire: MarketSnapshotDeltaWire) => wire,
+};
+
+export type SnapshotDeltaDecoder = ReturnType<
+  typeof createSnapshotDeltaDecoder
+>;
+
+// ============================================================================
+// Asset-aware Validation
+// ============================================================================
+
+export type AssetValidationError =
+  | {
+      type: "UNKNOWN_SYMBOL";
+      symbol: string;
+    }
+  | {
+      type: "INVALID_LOT_SIZE";
+      symbol: string;
+      field: string;
+      value: number;
+      lotSize: number;
+    }
+  | {
+      type: "INVALID_TICK_SIZE";
+      symbol: string;
+      field: string;
+      value: number;
+      tickSize: number;
+    }
+  | {
+      type: "OUTSIDE_VALIDITY";
+      symbol: string;
+      field: string;
+      value: Date;
+    };
+
+export interface AssetValidationResult {
+  valid: boolean;
+  errors: AssetValidationError[];
+}
+
+export interface AssetValidationOptions {
+  // How far off the lot and tick grid a value may be, as a fraction of a step
+  tolerance?: number;
+}
+
+interface AssetChecks {
+  quantities?: Record<string, number | undefined>;
+  prices?: Record<string, number | undefined>;
+  timestamps?: Record<string, Date | undefined>;
+}
+
+export function isOnGrid(
+  value: number,
+  step: number,
+  tolerance: number = DEFAULT_TOLERANCE
+): boolean {
+  const steps = value / step;
+  // Never stricter than the float resolution of steps, which large values on
+  // a fine grid would otherwise fail through rounding alone
+  const resolution = 4 * Number.EPSILON * Math.abs(steps);
+  return Math.abs(steps - Math.round(steps)) <= Math.max(tolerance, resolution);
+}
+
+function checkAgainstAsset(
+  assets: ReadonlyMap<string, Asset>,
+  symbol: string,
+  checks: AssetChecks,
+  tolerance: number
+): AssetValidationResult {
+  const asset = assets.get(symbol);
+  if (asset === undefined) {
+    return { valid: false, errors: [{ type: "UNKNOWN_SYMBOL", symbol }] };
+  }
+
+  const errors: AssetValidationError[] = [];
+  const { lotSize, tickSize, validFrom, validUntil } = asset;
+
+  for (const [field, value] of Object.entries(checks.quantities ?? {})) {
+    if (value === undefined || lotSize === undefined) continue;
+    if (!isOnGrid(value, lotSize, tolerance)) {
+      errors.push({ type: "INVALID_LOT_SIZE", symbol, field, value, lotSize });
+    }
+  }
+  for (const [field, value] of Object.entries(checks.prices ?? {})) {
+    if (value === undefined || tickSize === undefined) continue;
+    if (!isOnGrid(value, tickSize, tolerance)) {
+      errors.push({
+        type: "INVALID_TICK_SIZE",
+        symbol,
+        field,
+        value,
+        tickSize,
+      });
+    }
+  }
+  for (const [field, value] of Object.entries(checks.timestamps ?? {})) {
+    if (value === undefined) continue;
+    if (
+      (validFrom !== undefined && value < validFrom) ||
+      (validUntil !== undefined && value > validUntil)
+    ) {
+      errors.push({ type: "OUTSIDE_VALIDITY", symbol, field, value });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function createAssetValidator(
+  assets: ReadonlyMap<string, Asset>,
+  options: AssetValidationOptions = {}
+) {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const check = (symbol: string, checks: AssetChecks) =>
+    checkAgainstAsset(assets, symbol, checks, tolerance);
+
+  return {
+    order: (order: Order) =>
+      check(order.symbol, {
+        quantities: { quantity: order.quantity },
+        prices: { price: order.price, stopPrice: order.stopPrice },
+        timestamps: { created: order.created },
+      }),
+    // Amendments without a symbol cannot be matched to an asset
+    partialOrder: (order: PartialOrder): AssetValidationResult =>
+      order.symbol === undefined
+        ? { valid: true, errors: [] }
+        : check(order.symbol, {
+            quantities: { quantity: order.quantity },
+            prices: { price: order.price, stopPrice: order.stopPrice },
+            timestamps: { created: order.created },
+          }),
+    fill: (fill: Fill) =>
+      check(fill.symbol, {
+        quantities: { quantity: fill.quantity },
+        prices: { price: fill.price },
+        timestamps: { created: fill.created },
+      }),
+    marketQuote: (quote: MarketQuote) =>
+      check(quote.symbol, {
+        prices: {
+          price: quote.price,
+          bid: quote.bid,
+          ask: quote.ask,
+          preClose: quote.preClose,
+        },
+        timestamps: { timestamp: quote.timestamp },
+      }),
+    marketBar: (bar: AnyIntervalMarketBar) =>
+      check(bar.symbol, {
+        prices: {
+          open: bar.open,
+          high: bar.high,
+          low: bar.low,
+          close: bar.close,
+        },
+        timestamps: { timestamp: bar.timestamp },
+      }),
+  };
+}
+
+export type AssetValidator = ReturnType<typeof createAssetValidator>;
+
+// ============================================================================
+// Columnar Series
+// ============================================================================
+
+// Timestamps are delta-encoded: the first is absolute, the rest are offsets
+// from the previous element
+export function deltaEncode(values: readonly number[]): number[] {
+  return values.map((value, i) => (i === 0 ? value : value - values[i - 1]!));
+}
+
+export function deltaDecode(deltas: readonly number[]): number[] {
+  let acc = 0;
+  return deltas.map((delta) => (acc += delta));
+}
+
+function refineColumns(
+  series: Record<string, unknown>,
+  ctx: z.RefinementCtx,
+  length: number
+) {
+  const fail = invariantReporter<"LENGTH_MISMATCH">(ctx);
+  for (const [field, column] of Object.entries(series)) {
+    if (Array.isArray(column) && column.length !== length) {
+      fail(
+        "LENGTH_MISMATCH",
+        field,
+        `${field} has ${column.length} values, expected ${length}`
+      );
+    }
+  }
+}
+
+// An explicit header names the series when it may be empty, e.g. a chart
+// range with no trading; items must then match it
+function seriesHeader<T extends { symbol: string }>(
+  items: readonly T[],
+  key: (item: T) => string,
+  header?: T
+): T {
+  const first = header ?? items[0];
+  if (first === undefined) {
+    throw new RangeError("Cannot encode an empty series without a header");
+  }
+  const mixed = items.find((item) => key(item) !== key(first));
+  if (mixed !== undefined) {
+    throw new RangeError(`Series mixes ${key(first)} and ${key(mixed)}`);
+  }
+  return first;
+}
+
+export const MarketBarSeriesWireSchema = z
+  .object({
+    symbol: z.string(),
+    interval: MarketBarWireSchema.shape.interval,
+    timestamp: z.array(z.number()),
+    open: z.array(z.number()),
+    high: z.array(z.number()),
+    low: z.array(z.number()),
+    close: z.array(z.number()),
+    volume: z.array(z.number()),
+  })
+  .superRefine((series, ctx) =>
+    refineColumns(series, ctx, series.timestamp.length)
+  );
+
+export type MarketBarSeriesWire = z.infer<typeof MarketBarSeriesWireSchema>;
+
+export type MarketBarSeriesHeader = Pick<
+  AnyIntervalMarketBar,
+  "symbol" | "interval"
+>;
+
+export function encodeMarketBarSeries(
+  bars: readonly AnyIntervalMarketBar[],
+  header?: MarketBarSeriesHeader
+): MarketBarSeriesWire {
+  const { symbol, interval } = seriesHeader<MarketBarSeriesHeader>(
+    bars,
+    (bar) => `${bar.symbol}@${bar.interval}`,
+    header
+  );
+  return {
+    symbol,
+    interval,
+    timestamp: deltaEncode(bars.map((bar) => bar.timestamp.getTime())),
+    open: bars.map((bar) => bar.open),
+    high: bars.map((bar) => bar.high),
+    low: bars.map((bar) => bar.low),
+    close: bars.map((bar) => bar.close),
+    volume: bars.map((bar) => bar.volume),
+  };
+}
+
+export function decodeMarketBarSeries(
+  parsed: MarketBarSeriesWire
+): AnyIntervalMarketBar[] {
+  return deltaDecode(parsed.timestamp).map((timestamp, i) => ({
+    symbol: parsed.symbol,
+    open: parsed.open[i]!,
+    high: parsed.high[i]!,
+    low: parsed.low[i]!,
+    close: parsed.close[i]!,
+    volume: parsed.volume[i]!,
+    timestamp: new Date(timestamp),
+    interval: parsed.interval,
+  }));
+}
+
+export const marketBarSeriesSchema = {
+  validate: (data: unknown) => MarketBarSeriesWireSchema.safeParse(data),
+  encode: (
+    bars: readonly AnyIntervalMarketBar[],
+    header?: MarketBarSeriesHeader
+  ) => encodeMarketBarSeries(bars, header),
+  decode: (wire: MarketBarSeriesWire) => decodeMarketBarSeries(wire),
+};
+
+const optionalColumn = z.array(z.number().nullable()).optional();
+
+export const MarketQuoteSeriesWireSchema = z
+  .object({
+    symbol: z.string(),
+    timestamp: z.array(z.number()),
+    price: z.array(z.number()),
+    volume: optionalColumn,
+    totalVolume: optionalColumn,
+    bid: optionalColumn,
+    bidVol: optionalColumn,
+    ask: optionalColumn,
+    askVol: optionalColumn,
+    preClose: optionalColumn,
+  })
+  .superRefine((series, ctx) =>
+    refineColumns(series, ctx, series.timestamp.length)
+  );
+
+export type MarketQuoteSeriesWire = z.infer<typeof MarketQuoteSeriesWireSchema>;
+
+const QUOTE_OPTIONAL_FIELDS = [
+  "volume",
+  "totalVolume",
+  "bid",
+  "bidVol",
+  "ask",
+  "askVol",
+  "preClose",
+] as const;
+
+export type MarketQuoteSeriesHeader = Pick<MarketQuote, "symbol">;
+
+export function encodeMarketQuoteSeries(
+  quotes: readonly MarketQuote[],
+  header?: MarketQuoteSeriesHeader
+): MarketQuoteSeriesWire {
+  const { symbol } = seriesHeader<MarketQuoteSeriesHeader>(
+    quotes,
+    (quote) => quote.symbol,
+    header
+  );
+  const wire: MarketQuoteSeriesWire = {
+    symbol,
+    timestamp: deltaEncode(quotes.map((quote) => quote.timestamp.getTime())),
+    price: quotes.map((quote) => quote.price),
+  };
+
+  // Columns are omitted entirely when no quote carries the field
+  for (const field of QUOTE_OPTIONAL_FIELDS) {
+    if (quotes.some((quote) => quote[field] !== undefined)) {
+      wire[field] = quotes.map((quote) => quote[field] ?? null);
+    }
+  }
+
+  return wire;
+}
+
+export function decodeMarketQuoteSeries(
+  parsed: MarketQuoteSeriesWire
+): MarketQuote[] {
+  return deltaDecode(parsed.timestamp).map((timestamp, i) => {
+    const quote: MarketQuote = {
+      symbol: parsed.symbol,
+      price: parsed.price[i]!,
+      timestamp: new Date(timestamp),
+    };
+
+    for (const field of QUOTE_OPTIONAL_FIELDS) {
+      const value = parsed[field]?.[i];
+      if (value !== undefined && value !== null) quote[field] = value;
+    }
+
+    return quote;
+  });
+}
+
+export const marketQuoteSeriesSchema = {
+  validate: (data: unknown) => MarketQuoteSeriesWireSchema.safeParse(data),
+  encode: (quotes: readonly MarketQuote[], header?: MarketQuoteSeriesHeader) =>
+    encodeMarketQuoteSeries(quotes, header),
+  decode: (wire: MarketQuoteSeriesWire) => decodeMarketQuoteSeries(wire),
+};
+
+// ============================================================================
+// Message Envelope
+// ============================================================================
+
+function envelope<K extends string, T extends z.ZodType>(kind: K, payload: T) {
+  return z.object({
+    kind: z.literal(kind),
+    v: z.number().int().positive(),
+    ts: z.number(),
+    payload,
+  });
+}
+
+export const MessageWireSchema = z.discriminatedUnion("kind", [
+  envelope("asset", AssetWireSchema),
+  envelope("marketSnapshot", MarketSnapshotWireSchema),
+  envelope("marketSnapshotDelta", MarketSnapshotDeltaWireSchema),
+  envelope("marketQuote", MarketQuoteWireSchema),
+  envelope("marketQuoteSeries", MarketQuoteSeriesWireSchema),
+  envelope("marketBar", MarketBarWireSchema),
+  envelope("marketBarSeries", MarketBarSeriesWireSchema),
+  envelope("tradeTick", TradeTickWireSchema),
+  envelope("orderBookUpdate", OrderBookUpdateWireSchema),
+  envelope("order", OrderWireSchema),
+  envelope("partialOrder", PartialOrderWireSchema),
+  envelope("orderState", OrderStateWireSchema),
+  envelope("fill", FillWireSchema),
+  envelope("longPosition", LongPositionWireSchema),
+  envelope("shortPosition", ShortPositionWireSchema),
+  envelope("position", PositionWireSchema),
+  envelope("positionPatch", PositionPatchWireSchema),
+]);
+
+export type MessageWire = z.infer<typeof MessageWireSchema>;
+
+export type MessageKind = MessageWire["kind"];
+
+export interface MessagePayloadMap {
+  asset: Asset;
+  marketSnapshot: MarketSnapshot;
+  marketSnapshotDelta: MarketSnapshotDeltaWire;
+  marketQuote: MarketQuote;
+  marketQuoteSeries: MarketQuote[];
+  marketBar: AnyIntervalMarketBar;
+  marketBarSeries: AnyIntervalMarketBar[];
+  tradeTick: TradeTick;
+  orderBookUpdate: OrderBookUpdate;
+  order: Order;
+  partialOrder: PartialOrder;
+  orderState: OrderState;
+  fill: Fill;
+  longPosition: LongPosition;
+  shortPosition: ShortPosition;
+  position: Position;
+  positionPatch: PositionPatchWire;
+}
+
+// MessageWire keyed by kind, so generic code can relate kind and payload
+export type MessageWireOf<K extends MessageKind = MessageKind> = {
+  [P in K]: {
+    kind: P;
+    v: number;
+    ts: number;
+    payload: MessageWireMap[P];
+  };
+}[K];
+
+export type Message<K extends MessageKind = MessageKind> = {
+  [P in K]: {
+    kind: P;
+    v: number;
+    ts: Date;
+    payload: MessagePayloadMap[P];
+  };
+}[K];
+
+export const messageCodecs = {
+  asset: assetSchema,
+  marketSnapshot: marketSnapshotSchema,
+  marketSnapshotDelta: marketSnapshotDeltaSchema,
+  marketQuote: marketQuoteSchema,
+  marketQuoteSeries: marketQuoteSeriesSchema,
+  marketBar: marketBarSchema,
+  marketBarSeries: marketBarSeriesSchema,
+  tradeTick: tradeTickSchema,
+  orderBookUpdate: orderBookUpdateSchema,
+  order: orderSchema,
+  partialOrder: partialOrderSchema,
+  orderState: orderStateSchema,
+  fill: fillSchema,
+  longPosition: longPositionSchema,
+  shortPosition: shortPositionSchema,
+  position: positionSchema,
+  positionPatch: positionPatchSchema,
+} as const satisfies MessageCodecs;
+
+// Indexing the mapped type ties payload and wire types to the kind
+function messageCodec<K extends MessageKind>(kind: K): MessageCodecs[K] {
+  const codecs: MessageCodecs = messageCodecs;
+  return codecs[kind];
+}
+
+export function encodeMessage<K extends MessageKind>(
+  message: Message<K>
+): MessageWireOf<K> {
+  return {
+    kind: message.kind,
+    v: message.v,
+    ts: message.ts.getTime(),
+    payload: messageCodec(message.kind).encode(message.payload),
+  };
+}
+
+export function decodeMessage<K extends MessageKind>(
+  parsed: MessageWireOf<K>
+): Message<K> {
+  return {
+    kind: parsed.kind,
+    v: parsed.v,
+    ts: new Date(parsed.ts),
+    payload: messageCodec(parsed.kind).decode(parsed.payload),
+  };
+}
+
+export function createMessage<K extends MessageKind>(
+  kind: K,
+  payload: MessagePayloadMap[K],
+  ts: Date = new Date()
+): Message<K> {
+  return { kind, v: WIRE_VERSIONS[kind], ts, payload } as Message<K>;
+}
+
+export type DecodeResult<T> =
+  { success: true; data: T } | { success: false; error: z.ZodError };
+
+export function decodeAny(data: unknown): DecodeResult<Message> {
+  return wireMigrations.decodeAny(data);
+}
+
+export const messageSchema = {
+  validate: (data: unknown) => MessageWireSchema.safeParse(data),
+  encode: (message: Message) => encodeMessage(message),
+  decode: (wire: MessageWire) => decodeMessage(wire),
+};
+
+// ============================================================================
+// Schema Versioning
+// ============================================================================
+
+export const WIRE_VERSIONS: Readonly<Record<MessageKind, number>> = {
+  asset: 1,
+  marketSnapshot: 1,
+  marketSnapshotDelta: 1,
+  marketQuote: 1,
+  marketQuoteSeries: 1,
+  marketBar: 1,
+  marketBarSeries: 1,
+  tradeTick: 1,
+  orderBookUpdate: 1,
+  order: 1,
+  partialOrder: 1,
+  orderState: 1,
+  fill: 1,
+  longPosition: 1,
+  shortPosition: 1,
+  position: 1,
+  positionPatch: 1,
+};
+
+// Upgrades a wire payload of version `from` to version `from + 1`. Input is
+// whatever the previous step produced, so migrations narrow it themselves.
+export type WireMigration = (wire: unknown) => unknown;
+
+const MessageHeaderSchema = z.object({
+  kind: z.enum(Object.keys(WIRE_VERSIONS) as [MessageKind, ...MessageKind[]]),
+  v: z.number().int().positive(),
+  ts: z.number(),
+  payload: z.unknown(),
+});
+
+function versionError(
+  message: string,
+  path: PropertyKey[],
+  input: unknown
+): z.ZodError {
+  return new z.ZodError([{ code: "custom", message, path, input }]);
+}
+
+export function createMigrationRegistry(
+  versions: Partial<Record<MessageKind, number>> = {}
+) {
+  const current: Record<MessageKind, number> = {
+    ...WIRE_VERSIONS,
+    ...versions,
+  };
+  const steps = new Map<string, WireMigration>();
+
+  const migrate = (
+    kind: MessageKind,
+    wire: unknown,
+    from: number
+  ): DecodeResult<unknown> => {
+    const to = current[kind];
+    if (from > to) {
+      return {
+        success: false,
+        error: versionError(
+          `${kind} v${from} is newer than supported v${to}`,
+          ["v"],
+          from
+        ),
+      };
+    }
+
+    let upgraded = wire;
+    for (let v = from; v < to; v++) {
+      const step = steps.get(`${kind}@${v}`);
+      if (step === undefined) {
+        return {
+          success: false,
+          error: versionError(
+            `No migration registered for ${kind} v${v} -> v${v + 1}`,
+            ["v"],
+            v
+          ),
+        };
+      }
+      try {
+        upgraded = step(upgraded);
+      } catch (err) {
+        return {
+          success: false,
+          error: versionError(
+            `Migration ${kind} v${v} -> v${v + 1} failed: ${err instanceof Error ? err.message : String(err)}`,
+            ["payload"],
+            upgraded
+          ),
+        };
+      }
+    }
+
+    return { success: true, data: upgraded };
+  };
+
+  const decode = <K extends MessageKind>(
+    kind: K,
+    data: unknown,
+    from: number
+  ): DecodeResult<MessagePayloadMap[K]> => {
+    const migrated = migrate(kind, data, from);
+    if (!migrated.success) return migrated;
+
+    const codec = messageCodec(kind);
+    const result = codec.validate(migrated.data);
+    if (!result.success) return result;
+    return { success: true, data: codec.decode(result.data) };
+  };
+
+  const decodeAny = (data: unknown): DecodeResult<Message> => {
+    const header = MessageHeaderSchema.safeParse(data);
+    if (!header.success) return header;
+
+    const { kind, v, ts, payload } = header.data;
+    const migrated = migrate(kind, payload, v);
+    if (!migrated.success) return migrated;
+
+    const result = MessageWireSchema.safeParse({
+      kind,
+      v: current[kind],
+      ts,
+      payload: migrated.data,
+    });
+    if (!result.success) return result;
+    return { success: true, data: decodeMessage(result.data) };
+  };
+
+  return {
+    versions: current as Readonly<Record<MessageKind, number>>,
+    register: (kind: MessageKind, from: number, migration: WireMigration) => {
+      steps.set(`${kind}@${from}`, migration);
+    },
+    migrate,
+    decode,
+    decodeAny,
+  };
+}
+
+export type MigrationRegistry = ReturnType<typeof createMigrationRegistry>;
+
+export const wireMigrations: MigrationRegistry = createMigrationRegistry();
+
+// ============================================================================
+// Codec Factory
+// ============================================================================
+
+export type TimestampUnit = "s" | "ms" | "us" | "ns";
+
+export type TimestampFormat = TimestampUnit | "iso";
+
+const TIMESTAMP_UNIT_PER_MS: Record<TimestampUnit, number> = {
+  s: 1e-3,
+  ms: 1,
+  us: 1e3,
+  ns: 1e6,
+};
+
+export function formatTimestamp(
+  ms: number,
+  format: TimestampFormat
+): number | string {
+  if (format === "iso") return new Date(ms).toISOString();
+  return ms * TIMESTAMP_UNIT_PER_MS[format];
+}
+
+// Every unit maps 1973-03-03 to 5138-11-16 onto its own magnitude range.
+// Anything else, including all pre-1973 dates, is ambiguous: undefined.
+export function detectTimestampUnit(value: number): TimestampUnit | undefined {
+  if (!(value >= 1e8)) return undefined;
+  if (value < 1e11) return "s";
+  if (value < 1e14) return "ms";
+  if (value < 1e17) return "us";
+  if (value < 1e20) return "ns";
+  return undefined;
+}
+
+// Returns epoch milliseconds, or NaN when the value cannot be read. Numbers
+// are only detected for "auto" and "iso"; pin a unit for pre-1973 dates.
+export function parseTimestamp(
+  value: number | string,
+  format: TimestampFormat | "auto" = "auto"
+): number {
+  if (typeof value === "string") {
+    if (!/^-?\d+(\.\d+)?$/.test(value)) return Date.parse(value);
+    value = Number(value);
+  }
+  const unit =
+    format === "auto" || format === "iso" ? detectTimestampUnit(value) : format;
+  if (unit === undefined) return NaN;
+  return Math.round(value / TIMESTAMP_UNIT_PER_MS[unit]);
+}
+
+export const TIMESTAMP_PATHS: Readonly<Record<MessageKind, readonly string[]>> =
+  {
+    asset: ["validFrom", "validUntil"],
+    marketSnapshot: ["timestamp"],
+    marketSnapshotDelta: ["timestamp", "baseTimestamp"],
+    marketQuote: ["timestamp"],
+    // Only the first element is an instant; offsets stay in milliseconds
+    marketQuoteSeries: ["timestamp.0"],
+    marketBar: ["timestamp"],
+    marketBarSeries: ["timestamp.0"],
+    tradeTick: ["timestamp"],
+    orderBookUpdate: ["timestamp"],
+    order: ["created"],
+    partialOrder: ["created"],
+    orderState: ["created", "modified"],
+    fill: ["created"],
+    longPosition: ["modified"],
+    shortPosition: ["modified"],
+    position: ["modified", "long.*.modified", "short.*.modified"],
+    positionPatch: [
+      "modified",
+      "long.added.*.modified",
+      "long.updated.*.modified",
+      "short.added.*.modified",
+      "short.updated.*.modified",
+    ],
+  };
+
+export type NumericFormat = "number" | "string" | { scale: number };
+
+const LONG_POSITION_NUMERIC_PATHS = [
+  "quantity",
+  "totalCost",
+  "realisedPnL",
+  "lots.*.quantity",
+  "lots.*.price",
+  "lots.*.totalCost",
+];
+
+const SHORT_POSITION_NUMERIC_PATHS = [
+  "quantity",
+  "totalProceeds",
+  "realisedPnL",
+  "lots.*.quantity",
+  "lots.*.price",
+  "lots.*.totalProceeds",
+];
+
+// Updates carry the same fields, with lots split into the ends they touch
+function lotsPatchPaths(paths: readonly string[]): string[] {
+  return paths.flatMap((path) =>
+    path.startsWith("lots.*.")
+      ? ["unshift", "push"].map((end) => path.replace("lots.", `lots.${end}.`))
+      : [path]
+  );
+}
+
+export const NUMERIC_PATHS: Readonly<Record<MessageKind, readonly string[]>> = {
+  asset: ["lotSize", "tickSize"],
+  marketSnapshot: ["price.*"],
+  marketSnapshotDelta: ["price.*"],
+  marketQuote: [
+    "price",
+    "volume",
+    "totalVolume",
+    "bid",
+    "bidVol",
+    "ask",
+    "askVol",
+    "preClose",
+  ],
+  marketQuoteSeries: [
+    "price.*",
+    "volume.*",
+    "totalVolume.*",
+    "bid.*",
+    "bidVol.*",
+    "ask.*",
+    "askVol.*",
+    "preClose.*",
+  ],
+  marketBar: ["open", "high", "low", "close", "volume"],
+  marketBarSeries: ["open.*", "high.*", "low.*", "close.*", "volume.*"],
+  tradeTick: ["price", "volume"],
+  orderBookUpdate: [
+    "bids.*.price",
+    "bids.*.size",
+    "asks.*.price",
+    "asks.*.size",
+  ],
+  order: ["quantity", "price", "stopPrice"],
+  partialOrder: ["quantity", "price", "stopPrice"],
+  orderState: [
+    "quantity",
+    "price",
+    "stopPrice",
+    "filledQuantity",
+    "remainingQuantity",
+  ],
+  fill: ["quantity", "price", "commission"],
+  longPosition: LONG_POSITION_NUMERIC_PATHS,
+  shortPosition: SHORT_POSITION_NUMERIC_PATHS,
+  position: [
+    "cash",
+    "totalCommission",
+    "realisedPnL",
+    ...LONG_POSITION_NUMERIC_PATHS.map((path) => `long.*.${path}`),
+    ...SHORT_POSITION_NUMERIC_PATHS.map((path) => `short.*.${path}`),
+  ],
+  positionPatch: [
+    "cash",
+    "totalCommission",
+    "realisedPnL",
+    ...LONG_POSITION_NUMERIC_PATHS.map((path) => `long.added.*.${path}`),
+    ...lotsPatchPaths(LONG_POSITION_NUMERIC_PATHS).map(
+      (path) => `long.updated.*.${path}`
+    ),
+    ...SHORT_POSITION_NUMERIC_PATHS.map((path) => `short.added.*.${path}`),
+    ...lotsPatchPaths(SHORT_POSITION_NUMERIC_PATHS).map(
+      (path) => `short.updated.*.${path}`
+    ),
+  ],
+};
+
+// Exact decimal expansion of the shortest round-trip form of a double:
+// value === sign * digits * 10^exponent
+function decimalParts(value: number) {
+  const match = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(String(value));
+  if (match === null) {
+    throw new RangeError(`${value} has no decimal representation`);
+  }
+  const [, sign = "", int = "", frac = "", exp = "0"] = match;
+  const digits = (int + frac).replace(/^0+(?=\d)/, "");
+  return { sign, digits, exponent: Number(exp) - frac.length };
+}
+
+export function toDecimalString(value: number): string {
+  const { sign, digits, exponent } = decimalParts(value);
+  if (exponent >= 0) return sign + digits + "0".repeat(exponent);
+
+  const padded = digits.padStart(1 - exponent, "0");
+  const point = padded.length + exponent;
+  const frac = padded.slice(point).replace(/0+$/, "");
+  return sign + padded.slice(0, point) + (frac ? `.${frac}` : "");
+}
+
+// Throws when `value` has more decimals than `scale` or overflows 2^53
+export function toScaledInteger(value: number, scale: number): number {
+  const { sign, digits, exponent } = decimalParts(value);
+  const shift = exponent + scale;
+
+  let integer: string;
+  if (shift >= 0) {
+    integer = digits + "0".repeat(shift);
+  } else if (/^0*$/.test(digits.slice(shift))) {
+    integer = digits.slice(0, shift) || "0";
+  } else {
+    throw new RangeError(`${value} cannot be represented at scale ${scale}`);
+  }
+
+  const scaled = Number(sign + integer);
+  if (!Number.isSafeInteger(scaled)) {
+    throw new RangeError(`${value} overflows at scale ${scale}`);
+  }
+  return scaled === 0 ? 0 : scaled;
+}
+
+export function fromScaledInteger(value: number, scale: number): number {
+  return value / 10 ** scale;
+}
+
+// Returns NaN for malformed input so schema validation rejects it
+export function parseNumeric(
+  value: number | string,
+  format: NumericFormat
+): number {
+  if (typeof value === "string") {
+    if (!/^-?\d+(\.\d+)?$/.test(value)) return NaN;
+    value = Number(value);
+  }
+  if (typeof format === "object") {
+    return Number.isSafeInteger(value)
+      ? fromScaledInteger(value, format.scale)
+      : NaN;
+  }
+  return value;
+}
+
+export function formatNumeric(
+  value: number,
+  format: NumericFormat
+): number | string {
+  if (format === "string") return toDecimalString(value);
+  if (typeof format === "object") return toScaledInteger(value, format.scale);
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Copies `value` with `fn` applied at a dotted path; `*` matches every key
+// of a record or every element of an array, a number one array element
+function mapPath(
+  value: unknown,
+  path: readonly string[],
+  fn: (field: unknown) => unknown
+): unknown {
+  const [head, ...rest] = path;
+  if (head === undefined) return fn(value);
+  if (head === "*" && Array.isArray(value)) {
+    return value.map((v) => mapPath(v, rest, fn));
+  }
+  if (/^\d+$/.test(head) && Array.isArray(value)) {
+    const index = Number(head);
+    return value.map((v, i) => (i === index ? mapPath(v, rest, fn) : v));
+  }
+  if (!isRecord(value)) return value;
+
+  if (head === "*") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, mapPath(v, rest, fn)])
+    );
+  }
+  if (value[head] === undefined) return value;
+  return { ...value, [head]: mapPath(value[head], rest, fn) };
+}
+
+function mapPaths(
+  value: unknown,
+  paths: readonly string[],
+  fn: (field: unknown) => unknown
+): unknown {
+  return paths.reduce((acc, path) => mapPath(acc, path.split("."), fn), value);
+}
+
+export type FormattedWire<T> = T extends number
+  ? number | string
+  : T extends readonly (infer U)[]
+    ? FormattedWire<U>[]
+    : T extends object
+      ? { [K in keyof T]: FormattedWire<T[K]> }
+      : T;
+
+export type MessageWireMap = {
+  [K in MessageKind]: Extract<MessageWire, { kind: K }>["payload"];
+};
+
+export interface WireCodec<T, W, E = W> {
+  validate: (data: unknown) => z.ZodSafeParseResult<W>;
+  encode: (value: T) => E;
+  decode: (wire: W) => T;
+}
+
+export type MessageCodecs = {
+  [K in MessageKind]: WireCodec<MessagePayloadMap[K], MessageWireMap[K]>;
+};
+
+export type WireCodecs = {
+  [K in MessageKind]: WireCodec<
+    MessagePayloadMap[K],
+    MessageWireMap[K],
+    FormattedWire<MessageWireMap[K]>
+  >;
+};
+
+export interface CodecOptions {
+  // Wire representation written by encode, defaults to epoch milliseconds
+  timestamp?: TimestampFormat;
+  // How validate reads numeric timestamps, defaults to the timestamp format
+  // so encode output always reads back; "auto" detects unambiguous units
+  timestampInput?: TimestampFormat | "auto";
+  // Wire representation of prices, quantities and cash amounts
+  numeric?: NumericFormat;
+}
+
+export function createCodecs(options: CodecOptions = {}): WireCodecs {
+  const format = options.timestamp ?? "ms";
+  const input = options.timestampInput ?? format;
+
+  const toWire = (field: unknown) =>
+    typeof field === "number" ? formatTimestamp(field, format) : field;
+  const fromWire = (field: unknown) =>
+    typeof field === "number" || typeof field === "string"
+      ? parseTimestamp(field, input)
+      : field;
+
+  const numeric = options.numeric ?? "number";
+  const numericToWire = (field: unknown) =>
+    typeof field === "number" ? formatNumeric(field, numeric) : field;
+  const numericFromWire = (field: unknown) =>
+    typeof field === "number" || typeof field === "string"
+      ? parseNumeric(field, numeric)
+      : field;
+
+  const wrap = <K extends MessageKind>(
+    kind: K
+  ): WireCodec<
+    MessagePayloadMap[K],
+    MessageWireMap[K],
+    FormattedWire<MessageWireMap[K]>
+  > => {
+    const codec = messageCodec(kind);
+    const timestamps = TIMESTAMP_PATHS[kind];
+    const numbers = NUMERIC_PATHS[kind];
+    return {
+      validate: (data) =>
+        codec.validate(
+          mapPaths(
+            mapPaths(data, timestamps, fromWire),
+            numbers,
+            numericFromWire
+          )
+        ),
+      encode: (value) =>
+        mapPaths(
+          mapPaths(codec.encode(value), timestamps, toWire),
+          numbers,
+          numericToWire
+        ) as FormattedWire<MessageWireMap[K]>,
+      decode: (wire) => codec.decode(wire),
+    };
+  };
+
+  return Object.fromEntries(
+    (Object.keys(messageCodecs) as MessageKind[]).map((kind) => [
+      kind,
+      wrap(kind),
+    ])
+  ) as WireCodecs;
+}
+
+// ============================================================================
+// NDJSON Streaming
+// ============================================================================
+
+export type NdjsonErrorPolicy = "skip" | "collect" | "throw";
+
+export interface NdjsonOptions {
+  // What to do with lines that fail to parse or validate, defaults to "throw"
+  onError?: NdjsonErrorPolicy;
+}
+
+export class NdjsonLineError extends Error {
+  constructor(
+    readonly line: number,
+    readonly text: string,
+    readonly error: z.ZodError | SyntaxError
+  ) {
+    super(`NDJSON line ${line}: ${error.message}`, { cause: error });
+    this.name = "NdjsonLineError";
+  }
+}
+
+type NdjsonChunk = string | Uint8Array;
+
+// Splits chunks into lines and decodes each; line numbers are 1-based
+function createLineDecoder<T, W>(
+  codec: WireCodec<T, W, unknown>,
+  options: NdjsonOptions
+) {
+  const policy = options.onError ?? "throw";
+  const text = new TextDecoder();
+  const errors: NdjsonLineError[] = [];
+  let buffer = "";
+  let line = 0;
+
+  const decodeLine = (raw: string, out: T[]) => {
+    line++;
+    const trimmed = raw.endsWith("\r") ? raw.slice(0, -1) : raw;
+    if (trimmed.trim() === "") return;
+
+    let failure: NdjsonLineError;
+    try {
+      const result = codec.validate(JSON.parse(trimmed));
+      if (result.success) {
+        out.push(codec.decode(result.data));
+        return;
+      }
+      failure = new NdjsonLineError(line, trimmed, result.error);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      failure = new NdjsonLineError(line, trimmed, error);
+    }
+
+    if (policy === "throw") throw failure;
+    if (policy === "collect") errors.push(failure);
+  };
+
+  return {
+    errors,
+    push(chunk: NdjsonChunk): T[] {
+      buffer +=
+        typeof chunk === "string"
+          ? chunk
+          : text.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      const out: T[] = [];
+      for (const raw of lines) decodeLine(raw, out);
+      return out;
+    },
+    flush(): T[] {
+      const out: T[] = [];
+      decodeLine(buffer + text.decode(), out);
+      buffer = "";
+      return out;
+    },
+  };
+}
+
+export interface NdjsonReader<T> extends AsyncIterable<T> {
+  // Filled while iterating when onError is "collect"
+  errors: NdjsonLineError[];
+}
+
+export function readNdjson<T, W>(
+  source: AsyncIterable<NdjsonChunk> | Iterable<NdjsonChunk>,
+  codec: WireCodec<T, W, unknown>,
+  options: NdjsonOptions = {}
+): NdjsonReader<T> {
+  const decoder = createLineDecoder(codec, options);
+  return {
+    errors: decoder.errors,
+    async *[Symbol.asyncIterator]() {
+      for await (const chunk of source) {
+        yield* decoder.push(chunk);
+      }
+      yield* decoder.flush();
+    },
+  };
+}
+
+export async function* writeNdjson<T, W>(
+  values: AsyncIterable<T> | Iterable<T>,
+  codec: WireCodec<T, W, unknown>
+): AsyncIterable<string> {
+  for await (const value of values) {
+    yield JSON.stringify(codec.encode(value)) + "\n";
+  }
+}
+
+export function createNdjsonDecoderStream<T, W>(
+  codec: WireCodec<T, W, unknown>,
+  options: NdjsonOptions = {}
+): TransformStream<NdjsonChunk, T> & { errors: NdjsonLineError[] } {
+  const decoder = createLineDecoder(codec, options);
+  const stream = new TransformStream<NdjsonChunk, T>({
+    transform(chunk, controller) {
+      for (const value of decoder.push(chunk)) controller.enqueue(value);
+    },
+    flush(controller) {
+      for (const value of decoder.flush()) controller.enqueue(value);
+    },
+  });
+  return Object.assign(stream, { errors: decoder.errors });
+}
+
+export function createNdjsonEncoderStream<T, W>(
+  codec: WireCodec<T, W, unknown>
+): TransformStream<T, string> {
+  return new TransformStream<T, string>({
+    transform(value, controller) {
+      controller.enqueue(JSON.stringify(codec.encode(value)) + "\n");
+    },
+  });
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+export const CSV_WIRE_SCHEMAS = {
+  asset: AssetWireSchema,
+  marketQuote: MarketQuoteWireSchema,
+  marketBar: MarketBarWireSchema,
+  orderState: OrderStateWireSchema,
+  fill: FillWireSchema,
+} as const;
+
+export type CsvKind = keyof typeof CSV_WIRE_SCHEMAS;
+
+export interface CsvColumn {
+  field: string;
+  type: "number" | "string";
+  optional: boolean;
+}
+
+// Flattens object, intersection and discriminated union schemas into columns
+export function wireColumns(schema: z.ZodType): CsvColumn[] {
+  const columns = new Map<string, CsvColumn>();
+
+  const visit = (node: z.ZodType) => {
+    if (node instanceof z.ZodIntersection) {
+      visit(node.def.left as z.ZodType);
+      visit(node.def.right as z.ZodType);
+    } else if (node instanceof z.ZodUnion) {
+      for (const option of node.options) visit(option as z.ZodType);
+    } else if (node instanceof z.ZodObject) {
+      for (const [field, value] of Object.entries(node.shape)) {
+        const optional = value instanceof z.ZodOptional;
+        const inner = optional ? value.unwrap() : value;
+        const type = inner instanceof z.ZodNumber ? "number" : "string";
+        if (!columns.has(field)) columns.set(field, { field, type, optional });
+      }
+    }
+  };
+
+  visit(schema);
+  return Array.from(columns.values());
+}
+
+export interface CsvOptions<T, W> {
+  // Fields to write, in order; defaults to every wire field
+  columns?: string[];
+  // Header name per field, defaults to the field name
+  headers?: Partial<Record<string, string>>;
+  delimiter?: string;
+  // Defaults to the epoch-ms codec; pass one from createCodecs for ISO dates
+  codec?: WireCodec<T, W, unknown>;
+}
+
+export interface CsvRowError {
+  // 1-based record number, the header being record 1
+  row: number;
+  // 1-based line on which the record starts
+  line: number;
+  error: z.ZodError;
+}
+
+export interface CsvParseResult<T> {
+  values: T[];
+  errors: CsvRowError[];
+}
+
+function quoteCsvCell(cell: string, delimiter: string): string {
+  return cell.includes(delimiter) || /["\r\n]/.test(cell)
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell;
+}
+
+// RFC 4180 records with the line each one starts on
+function splitCsv(
+  text: string,
+  delimiter: string
+): { cells: string[]; line: number }[] {
+  const records: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== "") {
+      records.push({ cells, line: start });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+export function createCsvCodec<K extends CsvKind>(
+  kind: K,
+  options: CsvOptions<MessagePayloadMap[K], MessageWireMap[K]> = {}
+) {
+  const delimiter = options.delimiter ?? ",";
+  const codec: WireCodec<MessagePayloadMap[K], MessageWireMap[K], unknown> =
+    options.codec ?? messageCodec(kind);
+  const available = wireColumns(CSV_WIRE_SCHEMAS[kind]);
+  const columns =
+    options.columns === undefined
+      ? available
+      : options.columns.map((field) => {
+          const column = available.find((c) => c.field === field);
+          if (column === undefined) {
+            throw new RangeError(`${kind} has no field ${field}`);
+          }
+          return column;
+        });
+  const headerOf = (field: string) => options.headers?.[field] ?? field;
+
+  const formatRow = (value: MessagePayloadMap[K]): string => {
+    const wire = codec.encode(value) as Record<string, unknown>;
+    return columns
+      .map(({ field }) =>
+        wire[field] === undefined
+          ? ""
+          : quoteCsvCell(String(wire[field]), delimiter)
+      )
+      .join(delimiter);
+  };
+
+  const header = columns
+    .map(({ field }) => quoteCsvCell(headerOf(field), delimiter))
+    .join(delimiter);
+
+  return {
+    columns,
+    header,
+    formatRow,
+    format: (values: Iterable<MessagePayloadMap[K]>): string =>
+      [header, ...Array.from(values, formatRow)].join("\r\n") + "\r\n",
+    parse: (text: string): CsvParseResult<MessagePayloadMap[K]> => {
+      const [head, ...rows] = splitCsv(text, delimiter);
+      const result: CsvParseResult<MessagePayloadMap[K]> = {
+        values: [],
+        errors: [],
+      };
+      if (head === undefined) return result;
+
+      // Columns are matched by header name, so order and extras do not matter
+      const indexed = available.flatMap((column) => {
+        const index = head.cells.indexOf(headerOf(column.field));
+        return index < 0 ? [] : [{ ...column, index }];
+      });
+
+      rows.forEach(({ cells, line }, i) => {
+        const wire: Record<string, unknown> = {};
+        for (const { field, type, index } of indexed) {
+          const cell = cells[index] ?? "";
+          if (cell === "") continue;
+          wire[field] =
+            type === "number" && /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(cell)
+              ? Number(cell)
+              : cell;
+        }
+
+        const parsed = codec.validate(wire);
+        if (parsed.success) {
+          result.values.push(codec.decode(parsed.data));
+        } else {
+          result.errors.push({ row: i + 2, line, error: parsed.error });
+        }
+      });
+
+      return result;
+    },
+  };
+}
+
+export type CsvCodec<K extends CsvKind> = ReturnType<typeof createCsvCodec<K>>;
+
+// ============================================================================
+// Binary Codec
+// ============================================================================
+
+// Record layout: tag byte, then per-type fields. Strings are varint length
+// prefixed UTF-8, timestamps zigzag varints, numbers float64 little-endian
+export const BINARY_TAGS = {
+  marketQuote: 1,
+  marketBar: 2,
+  fill: 3,
+} as const;
+
+const FILL_ACTIONS = [
+  ["BUY", "OPEN_LONG"],
+  ["BUY", "CLOSE_SHORT"],
+  ["SELL", "CLOSE_LONG"],
+  ["SELL", "OPEN_SHORT"],
+] as const;
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true });
+
+// Standard intervals are one byte; anything else in the interval grammar is
+// the escape byte followed by the interval string
+const CUSTOM_INTERVAL_TAG = 0xff;
+
+// Each encode call owns its buffer, so nothing outlives or is shared between
+// calls; the result is copied out at its final size
+function createByteWriter() {
+  let buffer = new Uint8Array(256);
+  let view = new DataView(buffer.buffer);
+  let offset = 0;
+
+  const reserve = (size: number) => {
+    if (offset + size <= buffer.length) return;
+    const grown = new Uint8Array(Math.max(buffer.length * 2, offset + size));
+    grown.set(buffer);
+    buffer = grown;
+    view = new DataView(buffer.buffer);
+  };
+
+  const u8 = (value: number) => {
+    reserve(1);
+    buffer[offset++] = value;
+  };
+
+  const varint = (value: number) => {
+    while (value >= 0x80) {
+      u8((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    u8(value);
+  };
+
+  const string = (value: string) => {
+    // ASCII fast path; anything else goes through TextEncoder
+    if (value.length < 0x80 && /^[\x00-\x7f]*$/.test(value)) {
+      reserve(1 + value.length);
+      buffer[offset++] = value.length;
+      for (let i = 0; i < value.length; i++) {
+        buffer[offset++] = value.charCodeAt(i);
+      }
+      return;
+    }
+    const encoded = utf8Encoder.encode(value);
+    varint(encoded.length);
+    bytes(encoded);
+  };
+
+  const bytes = (value: Uint8Array) => {
+    reserve(value.length);
+    buffer.set(value, offset);
+    offset += value.length;
+  };
+
+  return {
+    get offset() {
+      return offset;
+    },
+    u8,
+    varint,
+    string,
+    bytes,
+    // Invalid dates would otherwise be written as the epoch
+    zigzag(value: number) {
+      if (!Number.isSafeInteger(value)) {
+        throw new RangeError(`Cannot encode ${value} as an integer`);
+      }
+      varint(value >= 0 ? value * 2 : -value * 2 - 1);
+    },
+    f64(value: number) {
+      if (!Number.isFinite(value)) {
+        throw new RangeError(`Cannot encode non-finite number ${value}`);
+      }
+      reserve(8);
+      view.setFloat64(offset, value, true);
+      offset += 8;
+    },
+    u32(value: number) {
+      reserve(4);
+      view.setUint32(offset, value, true);
+      offset += 4;
+    },
+    interval(interval: string) {
+      const index = (MARKET_BAR_INTERVALS as readonly string[]).indexOf(
+        interval
+      );
+      if (index >= 0) {
+        u8(index);
+      } else if (BAR_INTERVAL_PATTERN.test(interval)) {
+        u8(CUSTOM_INTERVAL_TAG);
+        string(interval);
+      } else {
+        throw new RangeError(`Unknown bar interval ${interval}`);
+      }
+    },
+    finish: () => buffer.slice(0, offset),
+  };
+}
+
+function createByteReader(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const need = (size: number) => {
+    if (offset + size > bytes.length) {
+      throw new RangeError(`Truncated record at byte ${offset}`);
+    }
+  };
+
+  const u8 = (): number => {
+    need(1);
+    return bytes[offset++]!;
+  };
+
+  const varint = (): number => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = u8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  };
+
+  const string = (): string => {
+    const size = varint();
+    need(size);
+    const end = offset + size;
+
+    let ascii = "";
+    for (let i = offset; i < end; i++) {
+      const byte = bytes[i]!;
+      if (byte >= 0x80) {
+        ascii = utf8Decoder.decode(bytes.subarray(offset, end));
+        break;
+      }
+      ascii += String.fromCharCode(byte);
+    }
+    offset = end;
+    return ascii;
+  };
+
+  return {
+    get offset() {
+      return offset;
+    },
+    get done() {
+      return offset >= bytes.length;
+    },
+    u8,
+    varint,
+    string,
+    zigzag(): number {
+      const value = varint();
+      return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+    },
+    f64(): number {
+      need(8);
+      const value = view.getFloat64(offset, true);
+      offset += 8;
+      return value;
+    },
+    u32(): number {
+      need(4);
+      const value = view.getUint32(offset, true);
+      offset += 4;
+      return value;
+    },
+    skip(size: number) {
+      need(size);
+      offset += size;
+    },
+    interval(): BarInterval {
+      const index = u8();
+      if (index === CUSTOM_INTERVAL_TAG) {
+        const interval = string();
+        if (!BAR_INTERVAL_PATTERN.test(interval)) {
+          throw new RangeError(`Unknown bar interval ${interval}`);
+        }
+        return interval;
+      }
+      const interval = MARKET_BAR_INTERVALS[index];
+      if (interval === undefined) {
+        throw new RangeError("Unknown bar interval");
+      }
+      return interval;
+    },
+  };
+}
+
+function beginRecord(tag: number) {
+  const out = createByteWriter();
+  out.u8(tag);
+  return out;
+}
+
+function beginRead(bytes: Uint8Array, tag: number) {
+  const input = createByteReader(bytes);
+  const actual = input.u8();
+  if (actual !== tag) {
+    throw new RangeError(`Expected record tag ${tag}, got ${actual}`);
+  }
+  return input;
+}
+
+// Callers frame records themselves, so leftover bytes mean a framing bug
+function endRead<T>(input: ReturnType<typeof createByteReader>, value: T): T {
+  if (!input.done) {
+    throw new RangeError(
+      `Trailing bytes after record at offset ${input.offset}`
+    );
+  }
+  return value;
+}
+
+export function encodeMarketQuoteBinary(quote: MarketQuote): Uint8Array {
+  const out = beginRecord(BINARY_TAGS.marketQuote);
+
+  // Presence bitmap, one bit per optional field in QUOTE_OPTIONAL_FIELDS order
+  let presence = 0;
+  QUOTE_OPTIONAL_FIELDS.forEach((field, bit) => {
+    if (quote[field] !== undefined) presence |= 1 << bit;
+  });
+  out.u8(presence);
+
+  out.string(quote.symbol);
+  out.zigzag(quote.timestamp.getTime());
+  out.f64(quote.price);
+  for (const field of QUOTE_OPTIONAL_FIELDS) {
+    const value = quote[field];
+    if (value !== undefined) out.f64(value);
+  }
+
+  return out.finish();
+}
+
+export function decodeMarketQuoteBinary(bytes: Uint8Array): MarketQuote {
+  const input = beginRead(bytes, BINARY_TAGS.marketQuote);
+  const presence = input.u8();
+
+  const quote: MarketQuote = {
+    symbol: input.string(),
+    timestamp: new Date(input.zigzag()),
+    price: input.f64(),
+  };
+  QUOTE_OPTIONAL_FIELDS.forEach((field, bit) => {
+    if (presence & (1 << bit)) quote[field] = input.f64();
+  });
+
+  return endRead(input, quote);
+}
+
+export function encodeMarketBarBinary(bar: AnyIntervalMarketBar): Uint8Array {
+  const out = beginRecord(BINARY_TAGS.marketBar);
+  out.string(bar.symbol);
+  out.interval(bar.interval);
+  out.zigzag(bar.timestamp.getTime());
+  out.f64(bar.open);
+  out.f64(bar.high);
+  out.f64(bar.low);
+  out.f64(bar.close);
+  out.f64(bar.volume);
+  return out.finish();
+}
+
+export function decodeMarketBarBinary(bytes: Uint8Array): AnyIntervalMarketBar {
+  const input = beginRead(bytes, BINARY_TAGS.marketBar);
+  const symbol = input.string();
+  const interval = input.interval();
+  const timestamp = new Date(input.zigzag());
+
+  return endRead(input, {
+    symbol,
+    open: input.f64(),
+    high: input.f64(),
+    low: input.f64(),
+    close: input.f64(),
+    volume: input.f64(),
+    timestamp,
+    interval,
+  });
+}
+
+export function encodeFillBinary(fill: Fill): Uint8Array {
+  const action = FILL_ACTIONS.findIndex(
+    ([side, effect]) => side === fill.side && effect === fill.effect
+  );
+  if (action < 0) {
+    throw new RangeError(`Unknown fill action ${fill.side}/${fill.effect}`);
+  }
+  const out = beginRecord(BINARY_TAGS.fill);
+  out.u8(action);
+  out.string(fill.id);
+  out.string(fill.orderId);
+  out.string(fill.symbol);
+  out.zigzag(fill.created.getTime());
+  out.f64(fill.quantity);
+  out.f64(fill.price);
+  out.f64(fill.commission);
+  return out.finish();
+}
+
+export function decodeFillBinary(bytes: Uint8Array): Fill {
+  const input = beginRead(bytes, BINARY_TAGS.fill);
+  const action = FILL_ACTIONS[input.u8()];
+  if (action === undefined) {
+    throw new RangeError("Unknown fill side/effect");
+  }
+  const [side, effect] = action;
+  const id = input.string();
+  const orderId = input.string();
+  const symbol = input.string();
+  const created = new Date(input.zigzag());
+
+  return endRead(input, {
+    side,
+    effect,
+    id,
+    orderId,
+    symbol,
+    quantity: input.f64(),
+    price: input.f64(),
+    commission: input.f64(),
+    created,
+  } as Fill);
+}
+
+export const marketQuoteBinary = {
+  encode: (quote: MarketQuote) => encodeMarketQuoteBinary(quote),
+  decode: (bytes: Uint8Array) => decodeMarketQuoteBinary(bytes),
+};
+
+export const marketBarBinary = {
+  encode: (bar: AnyIntervalMarketBar) => encodeMarketBarBinary(bar),
+  decode: (bytes: Uint8Array) => decodeMarketBarBinary(bytes),
+};
+
+export const fillBinary = {
+  encode: (fill: Fill) => encodeFillBinary(fill),
+  decode: (bytes: Uint8Array) => decodeFillBinary(bytes),
+};
+
+// ============================================================================
+// Bar Archive
+// ============================================================================
+
+// Layout: "TCBA" magic and a version byte, then blocks. Each block header
+// holds symbol, interval, bar count, first/last timestamp, payload length and
+// a CRC-32 of the header fields and payload, so readers can skip blocks
+// without decoding them and a corrupt header is caught like a corrupt payload.
+// Payloads are a bit stream of delta-of-delta timestamps followed by one
+// XOR-compressed float column per OHLCV field.
+const BAR_ARCHIVE_MAGIC = [0x54, 0x43, 0x42, 0x41];
+const BAR_ARCHIVE_VERSION = 1;
+const BAR_ARCHIVE_FIELDS = ["open", "high", "low", "close", "volume"] as const;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// Pass a previous result to continue the checksum over further bytes
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const float64Bits = new DataView(new ArrayBuffer(8));
+
+// 64-bit values are handled as [hi, lo] unsigned 32-bit halves
+function toBits(value: number): [number, number] {
+  float64Bits.setFloat64(0, value);
+  return [float64Bits.getUint32(0), float64Bits.getUint32(4)];
+}
+
+function fromBits(hi: number, lo: number): number {
+  float64Bits.setUint32(0, hi);
+  float64Bits.setUint32(4, lo);
+  return float64Bits.getFloat64(0);
+}
+
+function clz64(hi: number, lo: number): number {
+  return hi !== 0 ? Math.clz32(hi) : 32 + Math.clz32(lo);
+}
+
+function ctz64(hi: number, lo: number): number {
+  const ctz32 = (v: number) => 31 - Math.clz32(v & -v);
+  return lo !== 0 ? ctz32(lo) : 32 + ctz32(hi);
+}
+
+function createBitWriter() {
+  const bytes: number[] = [];
+  let current = 0;
+  let used = 0;
+
+  const bits = (value: number, count: number) => {
+    for (let i = count - 1; i >= 0; i--) {
+      current = (current << 1) | ((value >>> i) & 1);
+      if (++used === 8) {
+        bytes.push(current);
+        current = 0;
+        used = 0;
+      }
+    }
+  };
+
+  return {
+    bits,
+    bits64(hi: number, lo: number, count: number) {
+      if (count > 32) {
+        bits(hi, count - 32);
+        bits(lo, 32);
+      } else {
+        bits(lo, count);
+      }
+    },
+    finish(): Uint8Array {
+      if (used > 0) bytes.push(current << (8 - used));
+      return Uint8Array.from(bytes);
+    },
+  };
+}
+
+function createBitReader(bytes: Uint8Array) {
+  let position = 0;
+
+  const bits = (count: number): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = bytes[position >>> 3];
+      if (byte === undefined) {
+        throw new RangeError("Truncated archive block");
+      }
+      value = ((value << 1) | ((byte >>> (7 - (position & 7))) & 1)) >>> 0;
+      position++;
+    }
+    return value;
+  };
+
+  return {
+    bits,
+    bits64(count: number): [number, number] {
+      return count > 32 ? [bits(count - 32), bits(32)] : [0, bits(count)];
+    },
+  };
+}
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+type BitReader = ReturnType<typeof createBitReader>;
+
+// Delta-of-delta buckets: 0 costs one bit, regular gaps a handful
+function writeDeltaOfDelta(out: BitWriter, dod: number) {
+  const zz = dod >= 0 ? dod * 2 : -dod * 2 - 1;
+  if (zz === 0) {
+    out.bits(0b0, 1);
+  } else if (zz < 2 ** 7) {
+    out.bits(0b10, 2);
+    out.bits(zz, 7);
+  } else if (zz < 2 ** 16) {
+    out.bits(0b110, 3);
+    out.bits(zz, 16);
+  } else if (zz < 2 ** 32) {
+    out.bits(0b1110, 4);
+    out.bits(zz, 32);
+  } else {
+    out.bits(0b1111, 4);
+    out.bits64(Math.floor(zz / 2 ** 32), zz >>> 0, 64);
+  }
+}
+
+function readDeltaOfDelta(input: BitReader): number {
+  let zz: number;
+  if (input.bits(1) === 0) {
+    zz = 0;
+  } else if (input.bits(1) === 0) {
+    zz = input.bits(7);
+  } else if (input.bits(1) === 0) {
+    zz = input.bits(16);
+  } else if (input.bits(1) === 0) {
+    zz = input.bits(32);
+  } else {
+    const [hi, lo] = input.bits64(64);
+    zz = hi * 2 ** 32 + lo;
+  }
+  return zz % 2 === 0 ? zz / 2 : -(zz + 1) / 2;
+}
+
+function writeXorColumn(out: BitWriter, values: readonly number[]) {
+  let [prevHi, prevLo] = [0, 0];
+  let leading = -1;
+  let trailing = 0;
+
+  values.forEach((value, i) => {
+    const [hi, lo] = toBits(value);
+    if (i === 0) {
+      out.bits64(hi, lo, 64);
+    } else {
+      const xHi = (hi ^ prevHi) >>> 0;
+      const xLo = (lo ^ prevLo) >>> 0;
+      if (xHi === 0 && xLo === 0) {
+        out.bits(0b0, 1);
+      } else {
+        const lz = Math.min(clz64(xHi, xLo), 31);
+        const tz = ctz64(xHi, xLo);
+        // Reuse the previous window when the meaningful bits fit inside it
+        const reuse = leading >= 0 && lz >= leading && tz >= trailing;
+        if (reuse) {
+          out.bits(0b10, 2);
+        } else {
+          leading = lz;
+          trailing = tz;
+          out.bits(0b11, 2);
+          out.bits(leading, 5);
+          out.bits(64 - leading - trailing - 1, 6);
+        }
+        const [mHi, mLo] = shiftRight64(xHi, xLo, trailing);
+        out.bits64(mHi, mLo, 64 - leading - trailing);
+      }
+    }
+    [prevHi, prevLo] = [hi, lo];
+  });
+}
+
+function readXorColumn(input: BitReader, count: number): number[] {
+  const values: number[] = [];
+  let [hi, lo] = [0, 0];
+  let leading = 0;
+  let trailing = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (i === 0) {
+      [hi, lo] = input.bits64(64);
+    } else if (input.bits(1) === 1) {
+      if (input.bits(1) === 1) {
+        leading = input.bits(5);
+        trailing = 64 - leading - (input.bits(6) + 1);
+      }
+      const [mHi, mLo] = input.bits64(64 - leading - trailing);
+      const [xHi, xLo] = shiftLeft64(mHi, mLo, trailing);
+      hi = (hi ^ xHi) >>> 0;
+      lo = (lo ^ xLo) >>> 0;
+    }
+    values.push(fromBits(hi, lo));
+  }
+
+  return values;
+}
+
+function shiftRight64(hi: number, lo: number, n: number): [number, number] {
+  if (n === 0) return [hi, lo];
+  if (n >= 32) return [0, hi >>> (n - 32)];
+  return [hi >>> n, ((lo >>> n) | (hi << (32 - n))) >>> 0];
+}
+
+function shiftLeft64(hi: number, lo: number, n: number): [number, number] {
+  if (n === 0) return [hi, lo];
+  if (n >= 32) return [(lo << (n - 32)) >>> 0, 0];
+  return [((hi << n) | (lo >>> (32 - n))) >>> 0, (lo << n) >>> 0];
+}
+
+function encodeBarBlockPayload(
+  bars: readonly AnyIntervalMarketBar[]
+): Uint8Array {
+  const out = createBitWriter();
+
+  let prevTime = bars[0]!.timestamp.getTime();
+  let prevDelta = 0;
+  for (const bar of bars.slice(1)) {
+    const time = bar.timestamp.getTime();
+    const delta = time - prevTime;
+    writeDeltaOfDelta(out, delta - prevDelta);
+    prevTime = time;
+    prevDelta = delta;
+  }
+
+  for (const field of BAR_ARCHIVE_FIELDS) {
+    writeXorColumn(
+      out,
+      bars.map((bar) => bar[field])
+    );
+  }
+
+  return out.finish();
+}
+
+export interface BarArchiveOptions {
+  // Bars per block; smaller blocks seek more precisely but compress worse
+  blockSize?: number;
+}
+
+export interface BarArchiveBlock {
+  symbol: string;
+  interval: BarInterval;
+  count: number;
+  start: Date;
+  end: Date;
+  // Byte offset of the block header within the archive
+  headerOffset: number;
+  // Byte offset and length of the payload within the archive
+  offset: number;
+  length: number;
+  checksum: number;
+}
+
+export interface BarArchiveRange {
+  symbol?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Bars must be in ascending time order within each symbol and interval
+export function encodeBarArchive(
+  bars: readonly AnyIntervalMarketBar[],
+  options: BarArchiveOptions = {}
+): Uint8Array {
+  const blockSize = options.blockSize ?? 1024;
+  if (!(blockSize >= 1)) {
+    throw new RangeError(`Invalid block size ${blockSize}`);
+  }
+
+  const blocks: AnyIntervalMarketBar[][] = [];
+  let block: AnyIntervalMarketBar[] = [];
+  for (const bar of bars) {
+    const last = block[block.length - 1];
+    const sameSeries =
+      last !== undefined &&
+      last.symbol === bar.symbol &&
+      last.interval === bar.interval;
+    if (sameSeries && bar.timestamp < last.timestamp) {
+      throw new RangeError(
+        `${bar.symbol} bar at ${bar.timestamp.toISOString()} is out of order`
+      );
+    }
+    if (last !== undefined && (!sameSeries || block.length >= blockSize)) {
+      blocks.push(block);
+      block = [];
+    }
+    block.push(bar);
+  }
+  if (block.length > 0) blocks.push(block);
+
+  const out = createByteWriter();
+  for (const byte of BAR_ARCHIVE_MAGIC) out.u8(byte);
+  out.u8(BAR_ARCHIVE_VERSION);
+
+  for (const block of blocks) {
+    const first = block[0]!;
+    const payload = encodeBarBlockPayload(block);
+
+    const header = createByteWriter();
+    header.string(first.symbol);
+    header.interval(first.interval);
+    header.varint(block.length);
+    header.zigzag(first.timestamp.getTime());
+    header.zigzag(block[block.length - 1]!.timestamp.getTime());
+    header.varint(payload.length);
+    const headerBytes = header.finish();
+
+    out.bytes(headerBytes);
+    out.u32(crc32(payload, crc32(headerBytes)));
+    out.bytes(payload);
+  }
+
+  return out.finish();
+}
+
+export function readBarArchiveIndex(bytes: Uint8Array): BarArchiveBlock[] {
+  const input = createByteReader(bytes);
+  for (const byte of BAR_ARCHIVE_MAGIC) {
+    if (input.u8() !== byte) throw new RangeError("Not a bar archive");
+  }
+  const version = input.u8();
+  if (version !== BAR_ARCHIVE_VERSION) {
+    throw new RangeError(`Unsupported bar archive version ${version}`);
+  }
+
+  const blocks: BarArchiveBlock[] = [];
+  while (!input.done) {
+    const headerOffset = input.offset;
+    const symbol = input.string();
+    const interval = input.interval();
+    const count = input.varint();
+    const start = new Date(input.zigzag());
+    const end = new Date(input.zigzag());
+    const length = input.varint();
+    const checksum = input.u32();
+    const offset = input.offset;
+    input.skip(length);
+
+    blocks.push({
+      symbol,
+      interval,
+      count,
+      start,
+      end,
+      headerOffset,
+      offset,
+      length,
+      checksum,
+    });
+  }
+
+  return blocks;
+}
+
+export function decodeBarArchiveBlock(
+  bytes: Uint8Array,
+  block: BarArchiveBlock
+): AnyIntervalMarketBar[] {
+  // The header runs up to the 4-byte checksum that precedes the payload
+  const header = bytes.subarray(block.headerOffset, block.offset - 4);
+  const payload = bytes.subarray(block.offset, block.offset + block.length);
+  if (crc32(payload, crc32(header)) !== block.checksum) {
+    throw new RangeError(
+      `Checksum mismatch in ${block.symbol} block at byte ${block.offset}`
+    );
+  }
+
+  const input = createBitReader(payload);
+  const times = [block.start.getTime()];
+  let delta = 0;
+  for (let i = 1; i < block.count; i++) {
+    delta += readDeltaOfDelta(input);
+    times.push(times[i - 1]! + delta);
+  }
+
+  const [open, high, low, close, volume] = BAR_ARCHIVE_FIELDS.map(() =>
+    readXorColumn(input, block.count)
+  );
+
+  return times.map((timestamp, i) => ({
+    symbol: block.symbol,
+    open: open![i]!,
+    high: high![i]!,
+    low: low![i]!,
+    close: close![i]!,
+    volume: volume![i]!,
+    timestamp: new Date(timestamp),
+    interval: block.interval,
+  }));
+}
+
+// Only blocks overlapping the range are checksummed and decoded
+export function decodeBarArchive(
+  bytes: Uint8Array,
+  range: BarArchiveRange = {}
+): AnyIntervalMarketBar[] {
+  const { symbol, from, to } = range;
+  const inRange = (start: Date, end: Date) =>
+    (from === undefined || end >= from) && (to === undefined || start <= to);
+
+  return readBarArchiveIndex(bytes)
+    .filter(
+      (block) =>
+        (symbol === undefined || block.symbol === symbol) &&
+        inRange(block.start, block.end)
+    )
+    .flatMap((block) => decodeBarArchiveBlock(bytes, block))
+    .filter((bar) => inRange(bar.timestamp, bar.timestamp));
+}
+
+// ============================================================================
+// JSON Schema / OpenAPI Export
+// ============================================================================
+
+export const WIRE_SCHEMAS = {
+  AssetWire: AssetWireSchema,
+  MarketSnapshotWire: MarketSnapshotWireSchema,
+  MarketQuoteWire: MarketQuoteWireSchema,
+  MarketBarWire: MarketBarWireSchema,
+  TradeTickWire: TradeTickWireSchema,
+  OrderBookUpdateWire: OrderBookUpdateWireSchema,
+  OrderAction: OrderActionSchema,
+  OrderWire: OrderWireSchema,
+  PartialOrderWire: PartialOrderWireSchema,
+  OrderStateWire: OrderStateWireSchema,
+  FillWire: FillWireSchema,
+  LongPositionLot: LongPositionLotSchema,
+  LongPositionWire: LongPositionWireSchema,
+  ShortPositionLot: ShortPositionLotSchema,
+  ShortPositionWire: ShortPositionWireSchema,
+  PositionWire: PositionWireSchema,
+  PositionPatchWire: PositionPatchWireSchema,
+  MarketSnapshotDeltaWire: MarketSnapshotDeltaWireSchema,
+  MarketBarSeriesWire: MarketBarSeriesWireSchema,
+  MarketQuoteSeriesWire: MarketQuoteSeriesWireSchema,
+  MessageWire: MessageWireSchema,
+} as const;
+
+export type WireSchemaName = keyof typeof WIRE_SCHEMAS;
+
+export type JsonSchema = Record<string, unknown>;
+
+// Input mode leaves objects open, matching how the Zod schemas strip unknown
+// keys rather than rejecting them. Refinements are not represented.
+const JSON_SCHEMA_OPTIONS = {
+  target: "draft-2020-12",
+  io: "input",
+} as const;
+
+export function toJsonSchemas(): Record<WireSchemaName, JsonSchema> {
+  return Object.fromEntries(
+    Object.entries(WIRE_SCHEMAS).map(([name, schema]) => {
+      const { $schema, ...rest } = z.toJSONSchema(schema, JSON_SCHEMA_OPTIONS);
+      return [name, { $schema, title: name, ...rest } as JsonSchema];
+    })
+  ) as Record<WireSchemaName, JsonSchema>;
+}
+
+export function toOpenApiComponents(): {
+  schemas: Record<WireSchemaName, JsonSchema>;
+} {
+  const registry = z.registry<{ id: string }>();
+  for (const [name, schema] of Object.entries(WIRE_SCHEMAS)) {
+    registry.add(schema, { id: name });
+  }
+
+  const { schemas } = z.toJSONSchema(registry, {
+    ...JSON_SCHEMA_OPTIONS,
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  // Components are embedded in the document, not standalone resources
+  return {
+    schemas: Object.fromEntries(
+      Object.entries(schemas).map(([name, { $schema, $id, ...schema }]) => [
+        name,
+        schema as JsonSchema,
+      ])
+    ) as Record<WireSchemaName, JsonSchema>,
+  };
+}
+
+export function toOpenApiDocument(info: { title: string; version: string }) {
+  return {
+    openapi: "3.1.0",
+    info,
+    paths: {},
+    components: toOpenApiComponents(),
+  };
+}
+
+// ============================================================================
+// Test Data Generators
+// ============================================================================
+
+// Mulberry32: tiny, fast and plenty for test data (not for cryptography)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface GeneratorOptions {
+  symbols?: readonly string[];
+  // Generated timestamps fall within a year after start
+  start?: Date;
+}
+
+const DEFAULT_GENERATOR_SYMBOLS = ["AAPL", "MSFT", "GOOGL", "TSLA", "AMZN"];
+const DEFAULT_GENERATOR_START = Date.UTC(2021, 0, 1);
+
+// Same seed, same sequence of calls, same data. Overrides win over generated
+// fields, and derived fields (high/low, remainingQuantity, lot sums) are
+// computed from the overridden inputs.
+export function createGenerators(seed = 1, options: GeneratorOptions = {}) {
+  const random = createRandom(seed);
+  const symbols = options.symbols ?? DEFAULT_GENERATOR_SYMBOLS;
+  const start = options.start?.getTime() ?? DEFAULT_GENERATOR_START;
+  const orderTypes = Object.keys(ORDER_PRICE_FIELDS) as OrderType[];
+  const orderStatuses = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+  const orderEffects = [...ORDER_EFFECTS.BUY, ...ORDER_EFFECTS.SELL];
+  let nextId = 1;
+
+  const uniform = (min: number, max: number) => min + random() * (max - min);
+  const int = (min: number, max: number) => Math.floor(uniform(min, max + 1));
+  const pick = <T>(values: readonly T[]): T =>
+    values[int(0, values.length - 1)]!;
+  const chance = (p = 0.5) => random() < p;
+  const round = (value: number, digits = 2) =>
+    Math.round(value * 10 ** digits) / 10 ** digits;
+  const price = () => round(uniform(10, 500));
+  const timestamp = () =>
+    new Date(start + int(0, (365 * DAY_MS) / 1000) * 1000);
+  const id = (prefix: string) => `${prefix}-${nextId++}`;
+
+  const action = (o: { side?: OrderSide; effect?: PositionEffect }) => {
+    const effect =
+      o.effect ?? pick(o.side ? ORDER_EFFECTS[o.side] : orderEffects);
+    const side =
+      o.side ?? (ORDER_EFFECTS.BUY.includes(effect) ? "BUY" : "SELL");
+    return { side, effect } as Pick<Order, "side" | "effect">;
+  };
+
+  const lots = <K extends "totalCost" | "totalProceeds">(key: K) =>
+    Array.from({ length: int(1, 4) }, () => {
+      const quantity = int(1, 500);
+      const lotPrice = price();
+      return { quantity, price: lotPrice, [key]: round(quantity * lotPrice) };
+    }) as ({ quantity: number; price: number } & Record<K, number>)[];
+
+  const sum = <T>(values: readonly T[], f: (value: T) => number) =>
+    values.reduce((total, value) => total + f(value), 0);
+
+  function asset(overrides: Partial<Asset> = {}): Asset {
+    const validFrom = timestamp();
+    const generated: Asset = {
+      symbol: pick(symbols),
+      type: pick(["stock", "etf", "future"]),
+      exchange: pick(["NASDAQ", "NYSE", "CME"]),
+      currency: "USD",
+      lotSize: pick([1, 10, 100]),
+      tickSize: pick([0.01, 0.05, 0.25]),
+      validFrom,
+    };
+    if (chance()) {
+      generated.validUntil = new Date(
+        validFrom.getTime() + int(1, 365) * DAY_MS
+      );
+    }
+    return { ...generated, ...overrides };
+  }
+
+  function marketSnapshot(
+    overrides: Partial<MarketSnapshot> = {}
+  ): MarketSnapshot {
+    const count = int(1, symbols.length);
+    return {
+      price: new Map(symbols.slice(0, count).map((s) => [s, price()])),
+      timestamp: timestamp(),
+      ...overrides,
+    };
+  }
+
+  // Keyframes and deltas between unrelated snapshots, half and half
+  function marketSnapshotDelta(
+    overrides: Partial<MarketSnapshotDeltaWire> = {}
+  ): MarketSnapshotDeltaWire {
+    const seq = int(1, 1_000_000);
+    const frame: MarketSnapshotDeltaWire = chance()
+      ? { type: "full", seq, ...encodeMarketSnapshot(marketSnapshot()) }
+      : diffMarketSnapshot(marketSnapshot(), marketSnapshot(), seq);
+    return { ...frame, ...overrides } as MarketSnapshotDeltaWire;
+  }
+
+  function marketQuote(overrides: Partial<MarketQuote> = {}): MarketQuote {
+    const last = overrides.price ?? price();
+    const spread = round(uniform(0.01, 0.5));
+    const generated: MarketQuote = {
+      symbol: pick(symbols),
+      price: last,
+      timestamp: timestamp(),
+    };
+    // Optional fields are present at random to exercise both encode paths
+    if (chance()) generated.volume = int(1, 10_000);
+    if (chance()) generated.totalVolume = int(10_000, 10_000_000);
+    if (chance()) {
+      generated.bid = round(last - spread);
+      generated.bidVol = int(1, 10_000);
+      generated.ask = round(last + spread);
+      generated.askVol = int(1, 10_000);
+    }
+    if (chance()) generated.preClose = round(last * uniform(0.95, 1.05));
+    return { ...generated, ...overrides };
+  }
+
+  function marketBar(
+    overrides: Partial<AnyIntervalMarketBar> = {}
+  ): AnyIntervalMarketBar {
+    const interval = overrides.interval ?? pick(MARKET_BAR_INTERVALS);
+    const open = overrides.open ?? price();
+    const close = overrides.close ?? round(open * uniform(0.97, 1.03));
+    // Rounding is monotonic, so high >= max(open, close) survives it
+    const high =
+      overrides.high ?? round(Math.max(open, close) * uniform(1, 1.02));
+    const low =
+      overrides.low ?? round(Math.min(open, close) * uniform(0.98, 1));
+    return {
+      symbol: pick(symbols),
+      volume: int(0, 1_000_000),
+      timestamp: new Date(alignToBarInterval(timestamp().getTime(), interval)),
+      ...overrides,
+      interval,
+      open,
+      high,
+      low,
+      close,
+    };
+  }
+
+  function tradeTick(overrides: Partial<TradeTick> = {}): TradeTick {
+    const generated: TradeTick = {
+      id: id("trade"),
+      symbol: pick(symbols),
+      price: price(),
+      volume: int(1, 10_000),
+      timestamp: timestamp(),
+    };
+    if (chance()) generated.aggressor = pick(["BUY", "SELL"] as const);
+    if (chance()) generated.conditions = [pick(["@", "F", "T", "I"])];
+    if (chance()) generated.venue = pick(["NASDAQ", "NYSE", "ARCA"]);
+    return { ...generated, ...overrides };
+  }
+
+  // Levels step away from a mid price one cent at a time, so books never cross
+  function orderBookUpdate(
+    overrides: Partial<OrderBookUpdate> = {}
+  ): OrderBookUpdate {
+    const mid = price();
+    const levels = (direction: 1 | -1) =>
+      Array.from({ length: int(1, 5) }, (_, i) => {
+        const level: OrderBookLevel = {
+          price: round(mid + direction * (i + 1) * 0.01),
+          size: int(1, 10_000),
+        };
+        if (chance()) level.orders = int(1, 50);
+        return level;
+      });
+    return {
+      symbol: pick(symbols),
+      seq: int(0, 1_000_000),
+      isSnapshot: chance(),
+      bids: levels(-1),
+      asks: levels(1),
+      timestamp: timestamp(),
+      ...overrides,
+    };
+  }
+
+  function order(overrides: Partial<Order> = {}): Order {
+    const type = overrides.type ?? pick(orderTypes);
+    const generated = {
+      id: id("order"),
+      symbol: pick(symbols),
+      ...action(overrides),
+      type,
+      quantity: int(1, 1000),
+      created: timestamp(),
+    } as Order;
+    if (ORDER_PRICE_FIELDS[type].price) generated.price = price();
+    if (ORDER_PRICE_FIELDS[type].stopPrice) generated.stopPrice = price();
+    return { ...generated, ...overrides } as Order;
+  }
+
+  function partialOrder(overrides: Partial<PartialOrder> = {}): PartialOrder {
+    const generated: PartialOrder = { id: id("order") };
+    // Amendments touch quantity, price or both
+    const amend = int(1, 3);
+    if (amend & 1) generated.quantity = int(1, 1000);
+    if (amend & 2) generated.price = price();
+    return { ...generated, ...overrides };
+  }
+
+  function orderState(overrides: Partial<OrderState> = {}): OrderState {
+    const base = order(overrides as Partial<Order>);
+    const status = overrides.status ?? pick(orderStatuses);
+    const filledQuantity =
+      overrides.filledQuantity ??
+      (status === "FILLED"
+        ? base.quantity
+        : status === "PARTIAL"
+          ? Math.max(1, Math.floor(base.quantity * uniform(0.1, 0.9)))
+          : status === "CANCELLED"
+            ? Math.floor(base.quantity * uniform(0, 0.9))
+            : 0);
+    const created = base.created ?? timestamp();
+    return {
+      ...base,
+      created,
+      filledQuantity,
+      remainingQuantity: base.quantity - filledQuantity,
+      status,
+      modified: new Date(created.getTime() + int(0, DAY_MS)),
+      ...overrides,
+    } as OrderState;
+  }
+
+  function fill(overrides: Partial<Fill> = {}): Fill {
+    const quantity = overrides.quantity ?? int(1, 1000);
+    const fillPrice = overrides.price ?? price();
+    return {
+      id: id("fill"),
+      orderId: id("order"),
+      symbol: pick(symbols),
+      ...action(overrides),
+      quantity,
+      price: fillPrice,
+      commission: round(quantity * fillPrice * 0.0005),
+      created: timestamp(),
+      ...overrides,
+    } as Fill;
+  }
+
+  function longPosition(overrides: Partial<LongPosition> = {}): LongPosition {
+    const positionLots = overrides.lots ?? lots("totalCost");
+    return {
+      quantity: sum(positionLots, (lot) => lot.quantity),
+      totalCost: sum(positionLots, (lot) => lot.totalCost),
+      realisedPnL: round(uniform(-1000, 1000)),
+      lots: positionLots,
+      modified: timestamp(),
+      ...overrides,
+    };
+  }
+
+  function shortPosition(
+    overrides: Partial<ShortPosition> = {}
+  ): ShortPosition {
+    const positionLots = overrides.lots ?? lots("totalProceeds");
+    return {
+      quantity: sum(positionLots, (lot) => lot.quantity),
+      totalProceeds: sum(positionLots, (lot) => lot.totalProceeds),
+      realisedPnL: round(uniform(-1000, 1000)),
+      lots: positionLots,
+      modified: timestamp(),
+      ...overrides,
+    };
+  }
+
+  function position(overrides: Partial<Position> = {}): Position {
+    const held = symbols.filter(() => chance());
+    const long =
+      overrides.long ??
+      new Map(held.filter(() => chance()).map((s) => [s, longPosition()]));
+    const short =
+      overrides.short ??
+      new Map(
+        held.filter((s) => !long.has(s)).map((s) => [s, shortPosition()])
+      );
+    const children = [...long.values(), ...short.values()];
+
+    const generated: Position = {
+      cash: round(uniform(0, 1_000_000)),
+      totalCommission: round(uniform(0, 500)),
+      realisedPnL: round(sum(children, (pos) => pos.realisedPnL)),
+      // Never older than any of its symbol positions
+      modified: new Date(
+        Math.max(
+          timestamp().getTime(),
+          ...children.map((pos) => pos.modified.getTime())
+        )
+      ),
+    };
+    if (long.size > 0) generated.long = long;
+    if (short.size > 0) generated.short = short;
+    return { ...generated, ...overrides };
+  }
+
+  // Unrelated positions, so patches add, update and remove entries at once
+  // Series share the first element's key and run in timestamp order
+  function marketQuoteSeries(length = int(1, 5)): MarketQuote[] {
+    const first = marketQuote();
+    return [
+      first,
+      ...Array.from({ length: length - 1 }, () =>
+        marketQuote({ symbol: first.symbol })
+      ),
+    ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+  function marketBarSeries(length = int(1, 5)): AnyIntervalMarketBar[] {
+    const first = marketBar();
+    return [
+      first,
+      ...Array.from({ length: length - 1 }, () =>
+        marketBar({ symbol: first.symbol, interval: first.interval })
+      ),
+    ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+  function positionPatch(
+    overrides: Partial<PositionPatchWire> = {}
+  ): PositionPatchWire {
+    return {
+      ...diffPosition(position(), position(), int(1, 1_000_000)),
+      ...overrides,
+    };
+  }
+
+  return {
+    random,
+    asset,
+    marketSnapshot,
+    marketSnapshotDelta,
+    marketQuote,
+    marketQuoteSeries,
+    marketBar,
+    marketBarSeries,
+    tradeTick,
+    orderBookUpdate,
+    order,
+    partialOrder,
+    orderState,
+    fill,
+    longPosition,
+    shortPosition,
+    position,
+    positionPatch,
+  };
+}
+
+export type Generators = ReturnType<typeof createGenerators>;
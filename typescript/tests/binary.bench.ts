@@ -0,0 +1,68 @@
+import { bench, describe } from "vitest";
+import {
+  encodeMarketQuote,
+  decodeMarketQuote,
+  marketQuoteSchema,
+  encodeMarketQuoteBinary,
+  decodeMarketQuoteBinary,
+} from "../src/index";
+import type { MarketQuote } from "@junduck/trading-core/trading";
+
+const ITEM_COUNT = 6000;
+
+function createTestData(): MarketQuote[] {
+  const data: MarketQuote[] = [];
+  const baseTime = Date.now();
+
+  for (let i = 0; i < ITEM_COUNT; i++) {
+    const price = 50000 + Math.random() * 1000;
+    data.push({
+      symbol: `symbol_${(i % 100).toString().padStart(6, "0")}`,
+      price,
+      volume: Math.random() * 10,
+      timestamp: new Date(baseTime + i * 1000),
+      bid: price - 0.5,
+      bidVol: Math.random() * 100,
+      ask: price + 0.5,
+      askVol: Math.random() * 100,
+    });
+  }
+
+  return data;
+}
+
+describe("MarketQuote JSON vs binary performance", () => {
+  const testData = createTestData();
+
+  describe("Serialization", () => {
+    bench("JSON.stringify encodeMarketQuote", () => {
+      testData.map((item) => JSON.stringify(encodeMarketQuote(item)));
+    });
+
+    bench("encodeMarketQuoteBinary", () => {
+      testData.map((item) => encodeMarketQuoteBinary(item));
+    });
+  });
+
+  describe("Deserialization", () => {
+    const jsonData = testData.map((item) =>
+      JSON.stringify(encodeMarketQuote(item))
+    );
+    const binaryData = testData.map((item) => encodeMarketQuoteBinary(item));
+
+    bench("JSON.parse validate decodeMarketQuote", () => {
+      jsonData.map((item) => {
+        const result = marketQuoteSchema.validate(JSON.parse(item));
+        return result.success ? decodeMarketQuote(result.data) : undefined;
+      });
+    });
+
+    bench("JSON.parse decodeMarketQuote", () => {
+      jsonData.map((item) => decodeMarketQuote(JSON.parse(item)));
+    });
+
+    bench("decodeMarketQuoteBinary", () => {
+      binaryData.map((item) => decodeMarketQuoteBinary(item));
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
 import {
   assetSchema,
   marketSnapshotSchema,
@@ -24,7 +25,77 @@ import {
   decodeFill,
   encodePosition,
   decodePosition,
+  messageSchema,
+  createMessage,
+  encodeMessage,
+  decodeMessage,
+  decodeAny,
+  createMigrationRegistry,
+  WIRE_VERSIONS,
+  getInvariants,
+  isAlignedToInterval,
+  partialOrderSchema,
+  validateTransition,
+  validatePositionIntegrity,
+  createAssetValidator,
+  isOnGrid,
+  createCodecs,
+  parseTimestamp,
+  toDecimalString,
+  toScaledInteger,
+  readNdjson,
+  writeNdjson,
+  createNdjsonDecoderStream,
+  createNdjsonEncoderStream,
+  NdjsonLineError,
+  createCsvCodec,
+  marketBarSeriesSchema,
+  marketQuoteSeriesSchema,
+  marketQuoteBinary,
+  marketBarBinary,
+  fillBinary,
+  encodeBarArchive,
+  decodeBarArchive,
+  readBarArchiveIndex,
+  decodeBarArchiveBlock,
+  crc32,
+  toJsonSchemas,
+  WIRE_SCHEMAS,
+  toOpenApiDocument,
+  messageCodecs,
+  createGenerators,
+  applyPartialOrder,
+  diffOrders,
+  encodePartialOrder,
+  encodeLongPosition,
+  diffPosition,
+  applyPositionPatch,
+  PositionPatchWireSchema,
+  MarketSnapshotDeltaWireSchema,
+  diffMarketSnapshot,
+  createSnapshotDeltaEncoder,
+  createSnapshotDeltaDecoder,
+  reconcileFills,
+  orderBookUpdateSchema,
+  applyOrderBookUpdate,
+  tradeTickSchema,
+  aggregateTicks,
+  parseBarInterval,
+  isMarketBarInterval,
+  formatBarInterval,
+  barIntervalMs,
+  MARKET_BAR_INTERVAL_MS,
+  alignToBarInterval,
+  addBarInterval,
+  resampleBars,
+  validateBarSeries,
+  mergeBars,
+  dedupeBars,
+  type MessageKind,
+  type WireCodec,
+  type WireSchemaName,
 } from "../src/index";
+import type { MarketBar } from "@junduck/trading-core/trading";
 
 describe("Schema serdes", () => {
   describe("Asset", () => {
@@ -363,4 +434,2808 @@ describe("Schema serdes", () => {
       expect(runtime.modified).toEqual(now);
     });
   });
+
+  describe("Message envelope", () => {
+    it("should route mixed payloads to the right codec", () => {
+      const now = new Date();
+
+      const order = createMessage(
+        "order",
+        {
+          id: "order-1",
+          symbol: "BTCUSDT",
+          side: "BUY" as const,
+          effect: "OPEN_LONG" as const,
+          type: "LIMIT" as const,
+          quantity: 1,
+          price: 50000,
+          created: now,
+        },
+        now
+      );
+      const quote = createMessage(
+        "marketQuote",
+        { symbol: "BTCUSDT", price: 50000, timestamp: now },
+        now
+      );
+
+      // Encode to wire format and through JSON, as a socket would carry it
+      const wires = [encodeMessage(order), encodeMessage(quote)].map((w) =>
+        JSON.parse(JSON.stringify(w))
+      );
+      expect(wires[0].kind).toBe("order");
+      expect(wires[0].v).toBe(1);
+      expect(wires[0].ts).toBe(now.getTime());
+      expect(wires[0].payload.created).toBe(now.getTime());
+
+      // Decode without knowing the kind up front
+      const decoded = wires.map((w) => {
+        const result = decodeAny(w);
+        if (!result.success) {
+          throw new Error("Validation failed");
+        }
+        return result.data;
+      });
+
+      const [first, second] = decoded;
+      expect(first?.kind).toBe("order");
+      if (first?.kind === "order") {
+        expect(first.payload.side).toBe("BUY");
+        expect(first.payload.created).toEqual(now);
+      }
+      expect(second?.kind).toBe("marketQuote");
+      if (second?.kind === "marketQuote") {
+        expect(second.payload.timestamp).toEqual(now);
+      }
+      expect(first?.ts).toEqual(now);
+    });
+
+    it("should round-trip Map payloads", () => {
+      const now = new Date();
+      const message = createMessage("marketSnapshot", {
+        price: new Map([["BTCUSDT", 50000]]),
+        timestamp: now,
+      });
+
+      const validationResult = messageSchema.validate(encodeMessage(message));
+      expect(validationResult.success).toBe(true);
+      if (!validationResult.success) {
+        throw new Error("Validation failed");
+      }
+
+      const runtime = decodeMessage(validationResult.data);
+      expect(runtime.kind).toBe("marketSnapshot");
+      if (runtime.kind === "marketSnapshot") {
+        expect(runtime.payload.price).toBeInstanceOf(Map);
+        expect(runtime.payload.price.get("BTCUSDT")).toBe(50000);
+      }
+    });
+
+    it("should reject unknown kinds and mismatched payloads", () => {
+      expect(
+        decodeAny({ kind: "unknown", v: 1, ts: 0, payload: {} }).success
+      ).toBe(false);
+      expect(
+        decodeAny({
+          kind: "fill",
+          v: 1,
+          ts: 0,
+          payload: { symbol: "BTCUSDT", price: 1, timestamp: 0 },
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("Schema versioning", () => {
+    it("should upgrade an archived payload step by step", () => {
+      const now = new Date();
+
+      // Pretend fill is at v3: v1 called commission "fee", v2 had no symbol
+      const registry = createMigrationRegistry({ fill: 3 });
+      registry.register("fill", 1, (wire) => {
+        const { fee, ...rest } = wire as Record<string, unknown>;
+        return { ...rest, commission: fee };
+      });
+      registry.register("fill", 2, (wire) => ({
+        ...(wire as object),
+        symbol: "BTCUSDT",
+      }));
+
+      const archived = {
+        id: "fill-1",
+        orderId: "order-1",
+        side: "BUY",
+        effect: "OPEN_LONG",
+        quantity: 1,
+        price: 50000,
+        fee: 10,
+        created: now.getTime(),
+      };
+
+      const result = registry.decode("fill", archived, 1);
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        throw new Error("Migration failed");
+      }
+      expect(result.data.commission).toBe(10);
+      expect(result.data.symbol).toBe("BTCUSDT");
+      expect(result.data.created).toEqual(now);
+
+      // Envelopes carry their version and are upgraded the same way
+      const message = registry.decodeAny({
+        kind: "fill",
+        v: 1,
+        ts: now.getTime(),
+        payload: archived,
+      });
+      expect(message.success).toBe(true);
+      if (!message.success) {
+        throw new Error("Migration failed");
+      }
+      expect(message.data.v).toBe(3);
+    });
+
+    it("should report missing steps and newer versions", () => {
+      const registry = createMigrationRegistry({ position: 2 });
+
+      const missing = registry.migrate("position", {}, 1);
+      expect(missing.success).toBe(false);
+      if (!missing.success) {
+        expect(missing.error.issues[0]?.message).toContain("position v1");
+      }
+
+      expect(registry.migrate("position", {}, 3).success).toBe(false);
+
+      // A throwing step is a failed decode, not an exception
+      const broken = createMigrationRegistry({ asset: 2 });
+      broken.register("asset", 1, () => {
+        throw new Error("no currency");
+      });
+      const failed = broken.decodeAny({
+        kind: "asset",
+        v: 1,
+        ts: 0,
+        payload: { symbol: "AAPL" },
+      });
+      expect(failed.success).toBe(false);
+      if (!failed.success) {
+        expect(failed.error.issues[0]?.message).toBe(
+          "Migration asset v1 -> v2 failed: no currency"
+        );
+        expect(failed.error.issues[0]?.path).toEqual(["payload"]);
+      }
+      expect(
+        decodeAny({
+          kind: "asset",
+          v: WIRE_VERSIONS.asset + 1,
+          ts: 0,
+          payload: { symbol: "AAPL", currency: "USD" },
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("MarketBar strict validation", () => {
+    const bar = {
+      symbol: "BTCUSDT",
+      open: 50000,
+      high: 51000,
+      low: 49000,
+      close: 50500,
+      volume: 1000,
+      timestamp: Date.UTC(2024, 0, 1, 13),
+      interval: "1h" as const,
+    };
+
+    it("should accept a well-formed bar", () => {
+      expect(marketBarSchema.validateStrict(bar).success).toBe(true);
+    });
+
+    it("should name each violated invariant", () => {
+      const result = marketBarSchema.validateStrict({
+        ...bar,
+        high: 48000,
+        volume: -1,
+        timestamp: bar.timestamp + 1,
+      });
+      expect(result.success).toBe(false);
+      if (result.success) {
+        throw new Error("Validation should fail");
+      }
+      expect(getInvariants(result.error)).toEqual([
+        "HIGH_BELOW_LOW",
+        "OPEN_OUT_OF_RANGE",
+        "CLOSE_OUT_OF_RANGE",
+        "INVALID_VOLUME",
+        "UNALIGNED_TIMESTAMP",
+      ]);
+
+      // Loose validation still accepts it
+      expect(marketBarSchema.validate({ ...bar, high: 48000 }).success).toBe(
+        true
+      );
+    });
+
+    it("should align weeks to Monday and months to the 1st", () => {
+      expect(isAlignedToInterval(Date.UTC(2024, 0, 1), "1w")).toBe(true);
+      expect(isAlignedToInterval(Date.UTC(2024, 0, 2), "1w")).toBe(false);
+      expect(isAlignedToInterval(Date.UTC(2024, 1, 1), "1M")).toBe(true);
+      expect(isAlignedToInterval(Date.UTC(2024, 1, 2), "1M")).toBe(false);
+      expect(isAlignedToInterval(Date.UTC(2024, 1, 1, 0, 15), "15m")).toBe(
+        true
+      );
+    });
+  });
+
+  describe("Order strict validation", () => {
+    const order = {
+      id: "order-1",
+      symbol: "BTCUSDT",
+      side: "BUY",
+      effect: "OPEN_LONG",
+      type: "LIMIT",
+      quantity: 1,
+      price: 50000,
+    };
+
+    const invariantsOf = (result: ReturnType<typeof orderSchema.validate>) =>
+      result.success ? [] : getInvariants(result.error);
+
+    it("should tie price fields to order type", () => {
+      expect(orderSchema.validateStrict(order).success).toBe(true);
+
+      const { price: _, ...noPrice } = order;
+      expect(invariantsOf(orderSchema.validateStrict(noPrice))).toEqual([
+        "MISSING_PRICE",
+      ]);
+      expect(
+        invariantsOf(orderSchema.validateStrict({ ...order, type: "MARKET" }))
+      ).toEqual(["UNEXPECTED_PRICE"]);
+      expect(
+        invariantsOf(
+          orderSchema.validateStrict({ ...order, type: "STOP_LIMIT" })
+        )
+      ).toEqual(["MISSING_STOP_PRICE"]);
+      expect(
+        invariantsOf(
+          orderSchema.validateStrict({
+            ...noPrice,
+            type: "STOP",
+            stopPrice: 51000,
+          })
+        )
+      ).toEqual([]);
+    });
+
+    it("should reject non-positive quantity", () => {
+      expect(
+        invariantsOf(orderSchema.validateStrict({ ...order, quantity: 0 }))
+      ).toEqual(["INVALID_QUANTITY"]);
+      expect(
+        invariantsOf(orderSchema.validateStrict({ ...order, quantity: -1 }))
+      ).toEqual(["INVALID_QUANTITY"]);
+    });
+
+    it("should reject invalid side/effect pairs on PartialOrder", () => {
+      const amend = { id: "order-1", side: "BUY", effect: "CLOSE_LONG" };
+      expect(partialOrderSchema.validate(amend).success).toBe(true);
+
+      const result = partialOrderSchema.validateStrict(amend);
+      expect(result.success).toBe(false);
+      if (result.success) {
+        throw new Error("Validation should fail");
+      }
+      expect(getInvariants(result.error)).toEqual(["INVALID_ACTION"]);
+
+      // Amendments may carry a type without its prices
+      expect(
+        partialOrderSchema.validateStrict({ id: "order-1", type: "LIMIT" })
+          .success
+      ).toBe(true);
+      expect(
+        partialOrderSchema.validateStrict({
+          id: "order-1",
+          type: "MARKET",
+          price: 1,
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("OrderState consistency", () => {
+    const created = new Date(Date.UTC(2024, 0, 1));
+    const state = {
+      id: "order-1",
+      symbol: "BTCUSDT",
+      side: "BUY" as const,
+      effect: "OPEN_LONG" as const,
+      type: "LIMIT" as const,
+      quantity: 1,
+      price: 50000,
+      created,
+      filledQuantity: 0.3,
+      remainingQuantity: 0.7,
+      status: "PARTIAL" as const,
+      modified: new Date(created.getTime() + 1000),
+    };
+
+    it("should check filled and remaining against status", () => {
+      const wire = encodeOrderState(state);
+      expect(orderStateSchema.validateStrict(wire).success).toBe(true);
+
+      const result = orderStateSchema.validateStrict({
+        ...wire,
+        status: "FILLED",
+        remainingQuantity: 0.5,
+      });
+      expect(result.success).toBe(false);
+      if (result.success) {
+        throw new Error("Validation should fail");
+      }
+      expect(getInvariants(result.error)).toEqual([
+        "QUANTITY_MISMATCH",
+        "FILLED_NOT_COMPLETE",
+      ]);
+
+      const unfilled = orderStateSchema.validateStrict({
+        ...wire,
+        filledQuantity: 0,
+        remainingQuantity: 1,
+      });
+      expect(unfilled.success).toBe(false);
+      if (!unfilled.success) {
+        expect(getInvariants(unfilled.error)).toEqual(["PARTIAL_NOT_FILLED"]);
+      }
+    });
+
+    it("should accept legal transitions", () => {
+      const next = {
+        ...state,
+        filledQuantity: 1,
+        remainingQuantity: 0,
+        status: "FILLED" as const,
+        modified: new Date(state.modified.getTime() + 1000),
+      };
+      expect(validateTransition(state, next)).toEqual({
+        valid: true,
+        errors: [],
+      });
+    });
+
+    it("should reject out-of-order updates", () => {
+      const filled = {
+        ...state,
+        filledQuantity: 1,
+        remainingQuantity: 0,
+        status: "FILLED" as const,
+        modified: new Date(state.modified.getTime() + 1000),
+      };
+      const open = {
+        ...state,
+        filledQuantity: 0,
+        remainingQuantity: 1,
+        status: "OPEN" as const,
+        modified: state.modified,
+      };
+
+      const result = validateTransition(filled, open);
+      expect(result.valid).toBe(false);
+      expect(result.errors.map((e) => e.type)).toEqual([
+        "ILLEGAL_STATUS_TRANSITION",
+        "MODIFIED_REGRESSED",
+        "FILLED_QUANTITY_REGRESSED",
+      ]);
+
+      const other = validateTransition(state, { ...state, id: "order-2" });
+      expect(other.errors).toEqual([{ type: "ORDER_MISMATCH", field: "id" }]);
+    });
+  });
+
+  describe("Position integrity", () => {
+    const now = new Date();
+    const position = () => ({
+      cash: 10000,
+      long: new Map([
+        [
+          "AAPL",
+          {
+            quantity: 100,
+            totalCost: 15025,
+            realisedPnL: 0,
+            lots: [
+              { quantity: 50, price: 150, totalCost: 7500 },
+              { quantity: 50, price: 150.5, totalCost: 7525 },
+            ],
+            modified: now,
+          },
+        ],
+      ]),
+      short: new Map([
+        [
+          "TSLA",
+          {
+            quantity: 0.3,
+            totalProceeds: 75.15,
+            realisedPnL: 0,
+            lots: [
+              { quantity: 0.1, price: 250.5, totalProceeds: 25.05 },
+              { quantity: 0.2, price: 250.5, totalProceeds: 50.1 },
+            ],
+            modified: now,
+          },
+        ],
+      ]),
+      totalCommission: 0,
+      realisedPnL: 0,
+      modified: now,
+    });
+
+    it("should accept lots that add up within tolerance", () => {
+      expect(validatePositionIntegrity(position())).toEqual({
+        valid: true,
+        errors: [],
+      });
+    });
+
+    it("should report drift with symbol and lot index", () => {
+      const pos = position();
+      const aapl = pos.long.get("AAPL")!;
+      aapl.lots[1]!.quantity = -50;
+      aapl.totalCost = 15000;
+
+      const result = validatePositionIntegrity(pos);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          type: "INVALID_LOT",
+          symbol: "AAPL",
+          positionType: "LONG",
+          lotIndex: 1,
+          field: "quantity",
+          value: -50,
+        },
+        {
+          type: "QUANTITY_MISMATCH",
+          symbol: "AAPL",
+          positionType: "LONG",
+          expected: 100,
+          actual: 0,
+        },
+        {
+          type: "TOTAL_MISMATCH",
+          symbol: "AAPL",
+          positionType: "LONG",
+          expected: 15000,
+          actual: 15025,
+        },
+      ]);
+    });
+
+    it("should honour a configurable tolerance", () => {
+      const pos = position();
+      pos.short.get("TSLA")!.totalProceeds = 75.16;
+
+      expect(validatePositionIntegrity(pos).valid).toBe(false);
+      expect(validatePositionIntegrity(pos, { tolerance: 1e-3 }).valid).toBe(
+        true
+      );
+    });
+  });
+
+  describe("Asset-aware validation", () => {
+    const validFrom = new Date(Date.UTC(2024, 0, 1));
+    const validator = createAssetValidator(
+      new Map([
+        [
+          "AAPL",
+          {
+            symbol: "AAPL",
+            currency: "USD",
+            lotSize: 100,
+            tickSize: 0.01,
+            validFrom,
+          },
+        ],
+      ])
+    );
+
+    const fill = {
+      id: "fill-1",
+      orderId: "order-1",
+      symbol: "AAPL",
+      side: "BUY" as const,
+      effect: "OPEN_LONG" as const,
+      quantity: 300,
+      price: 150.27,
+      commission: 1,
+      created: new Date(Date.UTC(2024, 5, 1)),
+    };
+
+    it("should accept values on the lot and tick grid", () => {
+      expect(validator.fill(fill)).toEqual({ valid: true, errors: [] });
+      expect(
+        validator.partialOrder({ id: "order-1", price: 150.333 }).valid
+      ).toBe(true);
+    });
+
+    it("should report off-grid values and validity window", () => {
+      const result = validator.fill({
+        ...fill,
+        quantity: 150,
+        price: 150.255,
+        created: new Date(Date.UTC(2023, 0, 1)),
+      });
+      expect(result.errors.map((e) => e.type)).toEqual([
+        "INVALID_LOT_SIZE",
+        "INVALID_TICK_SIZE",
+        "OUTSIDE_VALIDITY",
+      ]);
+
+      const bar = validator.marketBar({
+        symbol: "AAPL",
+        open: 150,
+        high: 151.005,
+        low: 149,
+        close: 150.5,
+        volume: 1000,
+        timestamp: validFrom,
+        interval: "1d",
+      });
+      expect(bar.errors).toEqual([
+        {
+          type: "INVALID_TICK_SIZE",
+          symbol: "AAPL",
+          field: "high",
+          value: 151.005,
+          tickSize: 0.01,
+        },
+      ]);
+    });
+
+    it("should count grid tolerance in steps at any magnitude", () => {
+      expect(isOnGrid(0.3, 0.1)).toBe(true);
+      expect(isOnGrid(123456.78901234, 1e-8)).toBe(true);
+      expect(isOnGrid(1e9 + 0.5, 0.5)).toBe(true);
+      expect(isOnGrid(10.123456789, 1e-8)).toBe(false);
+      expect(isOnGrid(1000.000000015, 1e-8)).toBe(false);
+      expect(isOnGrid(123456.789012345, 1e-8)).toBe(false);
+      expect(isOnGrid(1e9 + 0.25, 0.5)).toBe(false);
+      expect(isOnGrid(10.0001, 0.01, 0.05)).toBe(true);
+    });
+
+    it("should reject unknown symbols", () => {
+      expect(
+        validator.marketQuote({
+          symbol: "MSFT",
+          price: 400,
+          timestamp: validFrom,
+        }).errors
+      ).toEqual([{ type: "UNKNOWN_SYMBOL", symbol: "MSFT" }]);
+    });
+  });
+
+  describe("Timestamp wire format", () => {
+    const now = new Date(Date.UTC(2024, 0, 1, 12, 30, 15, 250));
+
+    it("should encode ISO-8601 in nested fields and decode back", () => {
+      const codecs = createCodecs({ timestamp: "iso" });
+      const position = {
+        cash: 10000,
+        long: new Map([
+          [
+            "BTCUSDT",
+            {
+              quantity: 1,
+              totalCost: 50000,
+              realisedPnL: 0,
+              lots: [{ quantity: 1, price: 50000, totalCost: 50000 }],
+              modified: now,
+            },
+          ],
+        ]),
+        totalCommission: 0,
+        realisedPnL: 0,
+        modified: now,
+      };
+
+      const wire = codecs.position.encode(position);
+      expect(wire.modified).toBe("2024-01-01T12:30:15.250Z");
+      expect(wire.long?.["BTCUSDT"]?.modified).toBe(now.toISOString());
+
+      const validationResult = codecs.position.validate(
+        JSON.parse(JSON.stringify(wire))
+      );
+      expect(validationResult.success).toBe(true);
+      if (!validationResult.success) {
+        throw new Error("Validation failed");
+      }
+      const runtime = codecs.position.decode(validationResult.data);
+      expect(runtime.modified).toEqual(now);
+      expect(runtime.long?.get("BTCUSDT")?.modified).toEqual(now);
+    });
+
+    it("should format snapshot delta base timestamps", () => {
+      const codecs = createCodecs({ timestamp: "iso" });
+      const base = new Date(now.getTime() - 1000);
+      const wire = codecs.marketSnapshotDelta.encode({
+        type: "delta",
+        seq: 2,
+        baseSeq: 1,
+        baseTimestamp: base.getTime(),
+        price: { AAPL: 150.27 },
+        timestamp: now.getTime(),
+      });
+      expect(wire).toMatchObject({
+        timestamp: now.toISOString(),
+        baseTimestamp: base.toISOString(),
+      });
+
+      const parsed = codecs.marketSnapshotDelta.validate(wire);
+      expect(parsed.success).toBe(true);
+      expect(parsed.data).toMatchObject({ baseTimestamp: base.getTime() });
+    });
+
+    it("should format position patch timestamps", () => {
+      const codecs = createCodecs({ timestamp: "iso" });
+      const patch = {
+        seq: 1,
+        long: {
+          updated: { BTCUSDT: { quantity: 2, modified: now.getTime() } },
+        },
+        modified: now.getTime(),
+      };
+
+      const wire = codecs.positionPatch.encode(patch);
+      expect(wire.modified).toBe(now.toISOString());
+      expect(wire.long?.updated?.["BTCUSDT"]?.modified).toBe(now.toISOString());
+
+      const parsed = codecs.positionPatch.validate(wire);
+      expect(
+        parsed.success && codecs.positionPatch.decode(parsed.data)
+      ).toEqual(patch);
+    });
+
+    it("should format only the first series timestamp", () => {
+      const codecs = createCodecs({ timestamp: "iso" });
+      const quotes = [0, 1500, 4000].map((offset) => ({
+        symbol: "BTCUSDT",
+        price: 50000,
+        timestamp: new Date(now.getTime() + offset),
+      }));
+
+      const wire = codecs.marketQuoteSeries.encode(quotes);
+      expect(wire.timestamp).toEqual([now.toISOString(), 1500, 2500]);
+
+      const parsed = codecs.marketQuoteSeries.validate(wire);
+      expect(
+        parsed.success && codecs.marketQuoteSeries.decode(parsed.data)
+      ).toEqual(quotes);
+    });
+
+    it("should auto-detect epoch units on decode", () => {
+      const ms = now.getTime();
+      expect(parseTimestamp(ms / 1000)).toBe(ms);
+      expect(parseTimestamp(ms)).toBe(ms);
+      expect(parseTimestamp(ms * 1000)).toBe(ms);
+      expect(parseTimestamp(ms * 1e6)).toBe(ms);
+      expect(parseTimestamp(`${ms}000000`)).toBe(ms);
+      expect(parseTimestamp(now.toISOString())).toBe(ms);
+
+      // Ambiguous small values are rejected unless pinned to a unit
+      expect(parseTimestamp(86400000)).toBeNaN();
+      expect(parseTimestamp(-1e12)).toBeNaN();
+      expect(parseTimestamp(86400000, "ms")).toBe(86400000);
+    });
+
+    it("should read back its own output for dates before 1973", () => {
+      const asset = {
+        symbol: "IBM",
+        currency: "USD",
+        validFrom: new Date(Date.UTC(1972, 0, 1)),
+      };
+      for (const timestamp of ["s", "ms", "us", "ns", "iso"] as const) {
+        const codecs = createCodecs({ timestamp });
+        const parsed = codecs.asset.validate(
+          JSON.parse(JSON.stringify(codecs.asset.encode(asset)))
+        );
+        expect(parsed.success).toBe(true);
+        if (parsed.success) {
+          expect(codecs.asset.decode(parsed.data)).toEqual(asset);
+        }
+      }
+
+      const auto = createCodecs({ timestampInput: "auto" });
+      expect(
+        auto.asset.validate({ ...asset, validFrom: 86400000 }).success
+      ).toBe(false);
+    });
+
+    it("should encode and read seconds", () => {
+      const codecs = createCodecs({ timestamp: "s", timestampInput: "s" });
+      const quote = { symbol: "BTCUSDT", price: 50000, timestamp: now };
+
+      const wire = codecs.marketQuote.encode(quote);
+      expect(wire.timestamp).toBe(now.getTime() / 1000);
+
+      const validationResult = codecs.marketQuote.validate(wire);
+      expect(validationResult.success).toBe(true);
+      if (!validationResult.success) {
+        throw new Error("Validation failed");
+      }
+      expect(codecs.marketQuote.decode(validationResult.data)).toEqual(quote);
+
+      expect(
+        codecs.marketQuote.validate({ ...wire, timestamp: "yesterday" }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("Decimal-safe numeric mode", () => {
+    const now = new Date(Date.UTC(2024, 0, 1));
+    const samples = {
+      asset: { symbol: "AAPL", currency: "USD", lotSize: 1, tickSize: 0.01 },
+      marketSnapshot: { price: new Map([["AAPL", 150.25]]), timestamp: now },
+      marketSnapshotDelta: {
+        type: "delta" as const,
+        seq: 8,
+        baseSeq: 7,
+        baseTimestamp: now.getTime() - 1000,
+        price: { AAPL: 150.27 },
+        removed: ["MSFT"],
+        timestamp: now.getTime(),
+      },
+      marketQuote: {
+        symbol: "AAPL",
+        price: 150.25,
+        timestamp: now,
+        bid: 150.2,
+        ask: 150.3,
+      },
+      marketBar: {
+        symbol: "AAPL",
+        open: 150.1,
+        high: 151.23,
+        low: 149.07,
+        close: 150.5,
+        volume: 1200,
+        timestamp: now,
+        interval: "1d" as const,
+      },
+      marketBarSeries: [
+        {
+          symbol: "AAPL",
+          open: 150.1,
+          high: 151.23,
+          low: 149.07,
+          close: 150.5,
+          volume: 1200,
+          timestamp: now,
+          interval: "1d" as const,
+        },
+      ],
+      marketQuoteSeries: [
+        { symbol: "AAPL", price: 150.25, timestamp: now, bid: 150.2 },
+        { symbol: "AAPL", price: 150.31, timestamp: now },
+      ],
+      tradeTick: {
+        id: "trade-1",
+        symbol: "AAPL",
+        price: 150.23,
+        volume: 0.7,
+        timestamp: now,
+        aggressor: "BUY" as const,
+      },
+      orderBookUpdate: {
+        symbol: "AAPL",
+        seq: 7,
+        isSnapshot: false,
+        bids: [{ price: 150.21, size: 0.3, orders: 2 }],
+        asks: [{ price: 150.3, size: 0 }],
+        timestamp: now,
+      },
+      order: {
+        id: "order-1",
+        symbol: "AAPL",
+        side: "SELL" as const,
+        effect: "OPEN_SHORT" as const,
+        type: "STOP_LIMIT" as const,
+        quantity: 0.3,
+        price: 150.01,
+        stopPrice: 150.11,
+      },
+      partialOrder: { id: "order-1", price: 150.02 },
+      orderState: {
+        id: "order-1",
+        symbol: "AAPL",
+        side: "BUY" as const,
+        effect: "OPEN_LONG" as const,
+        type: "MARKET" as const,
+        quantity: 0.3,
+        filledQuantity: 0.1,
+        remainingQuantity: 0.2,
+        status: "PARTIAL" as const,
+        modified: now,
+      },
+      fill: {
+        id: "fill-1",
+        orderId: "order-1",
+        symbol: "AAPL",
+        side: "BUY" as const,
+        effect: "OPEN_LONG" as const,
+        quantity: 0.1,
+        price: 150.25,
+        commission: 0.07,
+        created: now,
+      },
+      longPosition: {
+        quantity: 0.3,
+        totalCost: 45.07,
+        realisedPnL: 0,
+        lots: [{ quantity: 0.3, price: 150.2, totalCost: 45.07 }],
+        modified: now,
+      },
+      shortPosition: {
+        quantity: 0.2,
+        totalProceeds: 30.03,
+        realisedPnL: -0.01,
+        lots: [{ quantity: 0.2, price: 150.2, totalProceeds: 30.03 }],
+        modified: now,
+      },
+      position: {
+        cash: 0.1 + 0.2,
+        short: new Map([
+          [
+            "AAPL",
+            {
+              quantity: 0.2,
+              totalProceeds: 30.03,
+              realisedPnL: 0,
+              lots: [{ quantity: 0.2, price: 150.2, totalProceeds: 30.03 }],
+              modified: now,
+            },
+          ],
+        ]),
+        totalCommission: 0.07,
+        realisedPnL: 0,
+        modified: now,
+      },
+      positionPatch: {
+        seq: 3,
+        cash: 84975.07,
+        long: {
+          added: {
+            AAPL: {
+              quantity: 0.3,
+              totalCost: 45.07,
+              realisedPnL: 0,
+              lots: [{ quantity: 0.3, price: 150.2, totalCost: 45.07 }],
+              modified: now.getTime(),
+            },
+          },
+          updated: {
+            MSFT: {
+              quantity: 0.1,
+              totalCost: 22.25,
+              lots: {
+                shift: 1,
+                push: [{ quantity: 0.1, price: 222.5, totalCost: 22.25 }],
+              },
+            },
+          },
+        },
+        short: { removed: ["TSLA"] },
+        modified: now.getTime(),
+      },
+    };
+
+    const roundTrip = (
+      codecs: ReturnType<typeof createCodecs>,
+      values: Partial<typeof samples>
+    ) => {
+      for (const [kind, value] of Object.entries(values)) {
+        const codec = codecs[kind as keyof typeof samples] as any;
+        const wire = JSON.parse(JSON.stringify(codec.encode(value)));
+        const validationResult = codec.validate(wire);
+        expect(validationResult.success).toBe(true);
+        expect(codec.decode(validationResult.data)).toEqual(value);
+      }
+    };
+
+    it("should round-trip every wire type as decimal strings", () => {
+      const codecs = createCodecs({ numeric: "string" });
+      roundTrip(codecs, samples);
+
+      const wire = codecs.position.encode(samples.position);
+      expect(wire.cash).toBe("0.30000000000000004");
+      expect(wire.short?.["AAPL"]?.lots[0]?.price).toBe("150.2");
+
+      const patch = codecs.positionPatch.encode(samples.positionPatch);
+      expect(patch.cash).toBe("84975.07");
+      expect(patch.long?.updated?.["MSFT"]?.lots?.push?.[0]?.price).toBe(
+        "222.5"
+      );
+      expect(patch.long?.updated?.["MSFT"]?.lots?.shift).toBe(1);
+
+      expect(
+        codecs.marketSnapshot.encode(samples.marketSnapshot).price
+      ).toEqual({ AAPL: "150.25" });
+
+      const series = codecs.marketQuoteSeries.encode(samples.marketQuoteSeries);
+      expect(series.price).toEqual(["150.25", "150.31"]);
+      expect(series.bid).toEqual(["150.2", null]);
+    });
+
+    it("should round-trip every wire type as scaled integers", () => {
+      const codecs = createCodecs({ numeric: { scale: 2 } });
+      // 0.1 + 0.2 has more decimals than the declared scale
+      const { position: _, ...exact } = samples;
+      roundTrip(codecs, exact);
+
+      expect(codecs.fill.encode(samples.fill).commission).toBe(7);
+      expect(() => codecs.position.encode(samples.position)).toThrow(
+        RangeError
+      );
+    });
+
+    it("should convert without binary rounding", () => {
+      expect(toDecimalString(1e-7)).toBe("0.0000001");
+      expect(toDecimalString(-1.5e21)).toBe("-1500000000000000000000");
+      expect(toScaledInteger(1.005, 3)).toBe(1005);
+      expect(toScaledInteger(-0.5, 1)).toBe(-5);
+      expect(() => toScaledInteger(1.005, 2)).toThrow(RangeError);
+    });
+  });
+
+  describe("NDJSON streaming", () => {
+    const start = Date.UTC(2024, 0, 1);
+    const quotes = Array.from({ length: 3 }, (_, i) => ({
+      symbol: "BTCUSDT",
+      price: 50000 + i,
+      timestamp: new Date(start + i * 1000),
+    }));
+
+    const collect = async <T>(iterable: AsyncIterable<T>) => {
+      const out: T[] = [];
+      for await (const item of iterable) out.push(item);
+      return out;
+    };
+
+    it("should round-trip through arbitrary chunk boundaries", async () => {
+      const text = (await collect(writeNdjson(quotes, marketQuoteSchema))).join(
+        ""
+      );
+      expect(text.split("\n")).toHaveLength(4);
+
+      // Split mid-line and mid-character as a socket would
+      const bytes = new TextEncoder().encode(text);
+      const chunks = [bytes.slice(0, 7), bytes.slice(7, 60), bytes.slice(60)];
+
+      const decoded = await collect(readNdjson(chunks, marketQuoteSchema));
+      expect(decoded).toEqual(quotes);
+    });
+
+    it("should apply the error policy with line numbers", async () => {
+      const lines = [
+        JSON.stringify(encodeMarketQuote(quotes[0]!)),
+        "{not json",
+        "",
+        JSON.stringify({ symbol: "BTCUSDT" }),
+        JSON.stringify(encodeMarketQuote(quotes[1]!)),
+      ].join("\r\n");
+
+      const collecting = readNdjson([lines], marketQuoteSchema, {
+        onError: "collect",
+      });
+      expect(await collect(collecting)).toEqual(quotes.slice(0, 2));
+      expect(collecting.errors.map((e) => e.line)).toEqual([2, 4]);
+      expect(collecting.errors[0]?.error).toBeInstanceOf(SyntaxError);
+
+      const skipping = readNdjson([lines], marketQuoteSchema, {
+        onError: "skip",
+      });
+      expect(await collect(skipping)).toHaveLength(2);
+      expect(skipping.errors).toHaveLength(0);
+
+      const throwing = readNdjson([lines], marketQuoteSchema);
+      await expect(collect(throwing)).rejects.toThrow(NdjsonLineError);
+      await expect(
+        collect(readNdjson([lines], marketQuoteSchema))
+      ).rejects.toMatchObject({ line: 2 });
+    });
+
+    it("should pipe through TransformStream adapters", async () => {
+      const decoder = createNdjsonDecoderStream(marketQuoteSchema, {
+        onError: "collect",
+      });
+      const output = ReadableStream.from(quotes)
+        .pipeThrough(createNdjsonEncoderStream(marketQuoteSchema))
+        .pipeThrough(decoder);
+
+      expect(await collect(output)).toEqual(quotes);
+      expect(decoder.errors).toHaveLength(0);
+    });
+  });
+
+  describe("CSV", () => {
+    const start = Date.UTC(2024, 0, 1);
+    const bars = [0, 1].map((i) => ({
+      symbol: "BTCUSDT",
+      open: 50000 + i,
+      high: 51000,
+      low: 49000,
+      close: 50500,
+      volume: 1000.5,
+      timestamp: new Date(start + i * 3600000),
+      interval: "1h" as const,
+    }));
+
+    it("should round-trip bars with mapped headers", () => {
+      const csv = createCsvCodec("marketBar", {
+        headers: { timestamp: "Time", volume: "Vol" },
+      });
+
+      const text = csv.format(bars);
+      const [header, first] = text.split("\r\n");
+      expect(header).toBe("symbol,open,high,low,close,Vol,Time,interval");
+      expect(first).toBe(`BTCUSDT,50000,51000,49000,50500,1000.5,${start},1h`);
+
+      const result = csv.parse(text);
+      expect(result.errors).toHaveLength(0);
+      expect(result.values).toEqual(bars);
+    });
+
+    it("should quote, escape and skip optional columns", () => {
+      const csv = createCsvCodec("asset", {
+        columns: ["symbol", "name", "currency", "lotSize"],
+        delimiter: ";",
+      });
+      const asset = {
+        symbol: "ACME",
+        name: 'Acme; "Widgets"\nInc',
+        currency: "USD",
+      };
+
+      const text = csv.format([asset]);
+      expect(text).toBe(
+        'symbol;name;currency;lotSize\r\nACME;"Acme; ""Widgets""\nInc";USD;\r\n'
+      );
+      expect(csv.parse(text).values).toEqual([asset]);
+    });
+
+    it("should read ISO dates and report per-row errors", () => {
+      const csv = createCsvCodec("fill", {
+        codec: createCodecs({ timestamp: "iso" }).fill,
+      });
+      const text = [
+        "created,id,orderId,symbol,side,effect,quantity,price,commission",
+        "2024-01-01T00:00:00.000Z,fill-1,order-1,BTCUSDT,BUY,OPEN_LONG,1,50000,10",
+        "2024-01-01T00:00:00.000Z,fill-2,order-1,BTCUSDT,BUY,CLOSE_LONG,1,50000,10",
+        "2024-01-01T00:00:00.000Z,fill-3,order-1,BTCUSDT,SELL,CLOSE_LONG,,50000,10",
+      ].join("\n");
+
+      const result = csv.parse(text);
+      expect(result.values).toHaveLength(1);
+      expect(result.values[0]?.created).toEqual(new Date(start));
+      expect(result.errors.map((e) => [e.row, e.line])).toEqual([
+        [3, 3],
+        [4, 4],
+      ]);
+      expect(result.errors[1]?.error.issues[0]?.path).toEqual(["quantity"]);
+    });
+  });
+
+  describe("Columnar series", () => {
+    const start = Date.UTC(2024, 0, 1);
+
+    it("should round-trip bars as parallel arrays", () => {
+      const bars = [0, 1, 2].map((i) => ({
+        symbol: "BTCUSDT",
+        open: 50000 + i,
+        high: 51000 + i,
+        low: 49000 + i,
+        close: 50500 + i,
+        volume: 1000 * i,
+        timestamp: new Date(start + i * 60000),
+        interval: "1m" as const,
+      }));
+
+      const wire = marketBarSeriesSchema.encode(bars);
+      expect(wire.symbol).toBe("BTCUSDT");
+      expect(wire.interval).toBe("1m");
+      expect(wire.timestamp).toEqual([start, 60000, 60000]);
+      expect(wire.open).toEqual([50000, 50001, 50002]);
+
+      const validationResult = marketBarSeriesSchema.validate(wire);
+      expect(validationResult.success).toBe(true);
+      if (!validationResult.success) {
+        throw new Error("Validation failed");
+      }
+      expect(marketBarSeriesSchema.decode(validationResult.data)).toEqual(bars);
+
+      expect(() =>
+        marketBarSeriesSchema.encode([bars[0]!, { ...bars[1]!, symbol: "X" }])
+      ).toThrow(RangeError);
+    });
+
+    it("should keep sparse optional quote fields", () => {
+      const quotes = [
+        { symbol: "BTCUSDT", price: 50000, timestamp: new Date(start), bid: 1 },
+        { symbol: "BTCUSDT", price: 50001, timestamp: new Date(start + 5) },
+      ];
+
+      const wire = marketQuoteSeriesSchema.encode(quotes);
+      expect(wire.bid).toEqual([1, null]);
+      expect(wire.ask).toBeUndefined();
+
+      const validationResult = marketQuoteSeriesSchema.validate(
+        JSON.parse(JSON.stringify(wire))
+      );
+      expect(validationResult.success).toBe(true);
+      if (!validationResult.success) {
+        throw new Error("Validation failed");
+      }
+      expect(marketQuoteSeriesSchema.decode(validationResult.data)).toEqual(
+        quotes
+      );
+    });
+
+    it("should round-trip empty series with an explicit header", () => {
+      const bars = marketBarSeriesSchema.encode([], {
+        symbol: "BTCUSDT",
+        interval: "1h",
+      });
+      expect(bars).toEqual({
+        symbol: "BTCUSDT",
+        interval: "1h",
+        timestamp: [],
+        open: [],
+        high: [],
+        low: [],
+        close: [],
+        volume: [],
+      });
+      const parsedBars = marketBarSeriesSchema.validate(
+        JSON.parse(JSON.stringify(bars))
+      );
+      expect(parsedBars.success).toBe(true);
+      if (parsedBars.success) {
+        expect(marketBarSeriesSchema.decode(parsedBars.data)).toEqual([]);
+      }
+
+      const quotes = marketQuoteSeriesSchema.encode([], { symbol: "BTCUSDT" });
+      expect(quotes).toEqual({ symbol: "BTCUSDT", timestamp: [], price: [] });
+      const parsedQuotes = marketQuoteSeriesSchema.validate(quotes);
+      expect(parsedQuotes.success).toBe(true);
+      if (parsedQuotes.success) {
+        expect(marketQuoteSeriesSchema.decode(parsedQuotes.data)).toEqual([]);
+      }
+
+      expect(() => marketBarSeriesSchema.encode([])).toThrow(RangeError);
+      expect(() =>
+        marketQuoteSeriesSchema.encode(
+          [{ symbol: "ETHUSDT", price: 1, timestamp: new Date(start) }],
+          { symbol: "BTCUSDT" }
+        )
+      ).toThrow(RangeError);
+    });
+
+    it("should reject ragged columns", () => {
+      const result = marketQuoteSeriesSchema.validate({
+        symbol: "BTCUSDT",
+        timestamp: [start, 1],
+        price: [1],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(getInvariants(result.error)).toEqual(["LENGTH_MISMATCH"]);
+      }
+    });
+  });
+
+  describe("Binary codec", () => {
+    const now = new Date(Date.UTC(2024, 0, 1, 9, 30, 0, 123));
+
+    it("should round-trip quotes exactly like the JSON codec", () => {
+      const quotes = [
+        { symbol: "BTCUSDT", price: 0.1 + 0.2, timestamp: now },
+        {
+          symbol: "日経225",
+          price: 38000.5,
+          timestamp: new Date(-86400000),
+          bid: 38000,
+          askVol: 0,
+          preClose: -1.5,
+        },
+      ];
+
+      for (const quote of quotes) {
+        const bytes = marketQuoteBinary.encode(quote);
+        expect(marketQuoteBinary.decode(bytes)).toEqual(
+          decodeMarketQuote(encodeMarketQuote(quote))
+        );
+      }
+
+      // Absent optional fields cost nothing beyond the presence bitmap
+      expect(marketQuoteBinary.encode(quotes[0]!).length).toBe(
+        2 + 1 + "BTCUSDT".length + 6 + 8
+      );
+    });
+
+    it("should round-trip bars and fills", () => {
+      const bar = {
+        symbol: "BTCUSDT",
+        open: 50000,
+        high: 51000,
+        low: 49000,
+        close: 50500,
+        volume: 1000.25,
+        timestamp: now,
+        interval: "1M" as const,
+      };
+      expect(marketBarBinary.decode(marketBarBinary.encode(bar))).toEqual(
+        decodeMarketBar(encodeMarketBar(bar))
+      );
+
+      const fill = {
+        id: "fill-1",
+        orderId: "order-1",
+        symbol: "BTCUSDT",
+        side: "SELL" as const,
+        effect: "OPEN_SHORT" as const,
+        quantity: 0.3,
+        price: 50000.01,
+        commission: 0.07,
+        created: now,
+      };
+      expect(fillBinary.decode(fillBinary.encode(fill))).toEqual(
+        decodeFill(encodeFill(fill))
+      );
+    });
+
+    it("should reject invalid dates and non-finite numbers", () => {
+      const quote = { symbol: "BTCUSDT", price: 50000, timestamp: now };
+      expect(() =>
+        marketQuoteBinary.encode({ ...quote, timestamp: new Date(NaN) })
+      ).toThrow(RangeError);
+      expect(() => marketQuoteBinary.encode({ ...quote, price: NaN })).toThrow(
+        RangeError
+      );
+      expect(() =>
+        marketQuoteBinary.encode({ ...quote, bid: Infinity })
+      ).toThrow(RangeError);
+    });
+
+    it("should encode records from within another encode", () => {
+      const inner = { symbol: "ETHUSDT", price: 3000, timestamp: now };
+      const outer = {
+        get symbol() {
+          marketQuoteBinary.encode(inner);
+          return "BTCUSDT";
+        },
+        price: 50000,
+        timestamp: now,
+      };
+      expect(marketQuoteBinary.decode(marketQuoteBinary.encode(outer))).toEqual(
+        { symbol: "BTCUSDT", price: 50000, timestamp: now }
+      );
+    });
+
+    it("should reject truncated and mistagged records", () => {
+      const bytes = fillBinary.encode({
+        id: "fill-1",
+        orderId: "order-1",
+        symbol: "BTCUSDT",
+        side: "BUY",
+        effect: "OPEN_LONG",
+        quantity: 1,
+        price: 1,
+        commission: 0,
+        created: now,
+      });
+      expect(() => fillBinary.decode(bytes.subarray(0, 20))).toThrow(
+        RangeError
+      );
+      expect(() => marketQuoteBinary.decode(bytes)).toThrow(RangeError);
+    });
+
+    it("should reject trailing bytes after a record", () => {
+      const quote = marketQuoteBinary.encode({
+        symbol: "AAPL",
+        price: 150.25,
+        timestamp: now,
+      });
+      const framed = new Uint8Array(quote.length * 2 + 1);
+      framed.set(quote);
+      framed.set(quote, quote.length);
+      framed[framed.length - 1] = 0xff;
+      expect(() => marketQuoteBinary.decode(framed)).toThrow(/Trailing bytes/);
+      expect(marketQuoteBinary.decode(quote).price).toBe(150.25);
+    });
+  });
+
+  describe("Bar archive", () => {
+    const start = Date.UTC(2024, 0, 1);
+    const bars = Array.from({ length: 2000 }, (_, i) => {
+      // Deterministic walk on a 0.01 grid with an hour-long gap mid-series
+      const base = 50000 + Math.round(Math.sin(i / 7) * 10000) / 100;
+      return {
+        symbol: "BTCUSDT",
+        open: base,
+        high: base + 1.25,
+        low: base - 0.75,
+        close: base + (i % 3) / 100,
+        volume: i % 5 === 0 ? 0 : 10 + i / 8,
+        timestamp: new Date(start + (i + (i >= 1000 ? 60 : 0)) * 60000),
+        interval: "1m" as const,
+      };
+    });
+
+    it("should round-trip to the same bars as decodeMarketBar", () => {
+      const bytes = encodeBarArchive(bars, { blockSize: 500 });
+      expect(decodeBarArchive(bytes)).toEqual(
+        bars.map((bar) => decodeMarketBar(encodeMarketBar(bar)))
+      );
+
+      // Far smaller than the JSON it replaces
+      const json = JSON.stringify(bars.map(encodeMarketBar));
+      expect(bytes.length * 5).toBeLessThan(json.length);
+    });
+
+    it("should seek by time range without decoding other blocks", () => {
+      const bytes = encodeBarArchive(bars, { blockSize: 500 });
+      const index = readBarArchiveIndex(bytes);
+      expect(index.map((block) => block.count)).toEqual([500, 500, 500, 500]);
+      expect(index[1]?.end).toEqual(bars[999]?.timestamp);
+
+      // Corrupt the first block; reads that skip it still succeed
+      const corrupted = bytes.slice();
+      corrupted[index[0]!.offset]! ^= 0xff;
+
+      const from = bars[1200]!.timestamp;
+      const to = bars[1209]!.timestamp;
+      expect(decodeBarArchive(corrupted, { from, to })).toEqual(
+        bars.slice(1200, 1210)
+      );
+      expect(() => decodeBarArchive(corrupted)).toThrow(/Checksum/);
+    });
+
+    it("should detect corrupted block headers", () => {
+      const bytes = encodeBarArchive(bars, { blockSize: 500 });
+      const [, block] = readBarArchiveIndex(bytes);
+
+      // Low bits of the start timestamp: symbol, interval and a 2-byte count
+      // come first
+      const corrupted = bytes.slice();
+      corrupted[block!.headerOffset + 1 + "BTCUSDT".length + 1 + 2]! ^= 0x02;
+      const [, shifted] = readBarArchiveIndex(corrupted);
+      expect(shifted!.start.getTime()).toBe(block!.start.getTime() + 1);
+      expect(() => decodeBarArchiveBlock(corrupted, shifted!)).toThrow(
+        /Checksum/
+      );
+
+      expect(crc32(bytes.subarray(4), crc32(bytes.subarray(0, 4)))).toBe(
+        crc32(bytes)
+      );
+    });
+
+    it("should keep series apart and reject unordered bars", () => {
+      const eth = bars.slice(0, 10).map((bar) => ({ ...bar, symbol: "ETH" }));
+      const bytes = encodeBarArchive([...bars.slice(0, 10), ...eth]);
+      expect(readBarArchiveIndex(bytes).map((block) => block.symbol)).toEqual([
+        "BTCUSDT",
+        "ETH",
+      ]);
+      expect(decodeBarArchive(bytes, { symbol: "ETH" })).toEqual(eth);
+
+      expect(() => encodeBarArchive([bars[1]!, bars[0]!])).toThrow(RangeError);
+    });
+  });
+
+  describe("JSON Schema export", () => {
+    it("should emit draft 2020-12 documents for every wire schema", () => {
+      const schemas = toJsonSchemas();
+      expect(schemas.FillWire["$schema"]).toBe(
+        "https://json-schema.org/draft/2020-12/schema"
+      );
+      expect(schemas.FillWire["title"]).toBe("FillWire");
+
+      // The side/effect discriminated union survives as oneOf
+      expect(schemas.OrderAction["oneOf"]).toEqual([
+        expect.objectContaining({
+          properties: {
+            side: { type: "string", const: "BUY" },
+            effect: { type: "string", enum: ["OPEN_LONG", "CLOSE_SHORT"] },
+          },
+        }),
+        expect.objectContaining({
+          properties: {
+            side: { type: "string", const: "SELL" },
+            effect: { type: "string", enum: ["CLOSE_LONG", "OPEN_SHORT"] },
+          },
+        }),
+      ]);
+      expect(schemas.AssetWire["required"]).toEqual(["symbol", "currency"]);
+    });
+
+    it("should bundle OpenAPI components with resolvable refs", () => {
+      const doc = toOpenApiDocument({ title: "wire", version: "1.0.0" });
+      const components = doc.components.schemas;
+      expect(doc.openapi).toBe("3.1.0");
+      expect(components.OrderWire["allOf"]).toContainEqual({
+        $ref: "#/components/schemas/OrderAction",
+      });
+
+      const refs = JSON.stringify(components).match(/"\$ref":"[^"]+"/g) ?? [];
+      expect(refs.length).toBeGreaterThan(0);
+      for (const ref of refs) {
+        const name = ref.split("/").pop()!.slice(0, -1);
+        expect(components).toHaveProperty(name);
+      }
+    });
+  });
+
+  describe("Fixture conformance", () => {
+    // Shared with the Python package: every wire schema needs a valid fixture
+    // and a set of invalid cases that both implementations must reject.
+    const FIXTURES_DIR = new URL("../../fixtures/", import.meta.url);
+    const INVALID_DIR = new URL("invalid/", FIXTURES_DIR);
+
+    interface InvalidFixture {
+      description: string;
+      path: (string | number)[];
+      data: unknown;
+    }
+
+    // Exported for JSON Schema, but only ever sent inside another wire type
+    // whose fixtures already cover them
+    const EMBEDDED: readonly WireSchemaName[] = [
+      "OrderAction",
+      "LongPositionLot",
+      "ShortPositionLot",
+      "MessageWire",
+    ];
+
+    const names = (Object.keys(WIRE_SCHEMAS) as WireSchemaName[]).filter(
+      (name) => !EMBEDDED.includes(name)
+    );
+
+    const kindSchemaName = (kind: MessageKind) =>
+      `${kind[0]!.toUpperCase()}${kind.slice(1)}Wire` as WireSchemaName;
+
+    // Codecs that decode a wire value back into its runtime type
+    const codecs: Partial<Record<WireSchemaName, WireCodec<any, any>>> = {
+      ...Object.fromEntries(
+        (Object.keys(messageCodecs) as MessageKind[]).map((kind) => [
+          kindSchemaName(kind),
+          messageCodecs[kind],
+        ])
+      ),
+    };
+
+    const fixtureName = (name: string) =>
+      name
+        .replace(/Wire$/, "")
+        .replace(/(?!^)[A-Z]/g, (c) => `_${c}`)
+        .toLowerCase() + ".json";
+
+    const loadJson = (url: URL): unknown =>
+      JSON.parse(readFileSync(url, "utf8"));
+
+    // Sorted keys, no whitespace, undefined fields dropped
+    const canonicalJson = (value: unknown) =>
+      JSON.stringify(value, (_key, v: unknown) =>
+        v !== null && typeof v === "object" && !Array.isArray(v)
+          ? Object.fromEntries(
+              Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            )
+          : v
+      );
+
+    it("should have valid and invalid fixtures for every wire schema", () => {
+      for (const name of names) {
+        expect(existsSync(new URL(fixtureName(name), FIXTURES_DIR))).toBe(true);
+        expect(existsSync(new URL(fixtureName(name), INVALID_DIR))).toBe(true);
+      }
+
+      // Every message kind is exported, and every exemption still exists
+      for (const kind of Object.keys(messageCodecs) as MessageKind[]) {
+        expect(WIRE_SCHEMAS).toHaveProperty(kindSchemaName(kind));
+      }
+      for (const name of EMBEDDED) {
+        expect(WIRE_SCHEMAS).toHaveProperty(name);
+      }
+
+      // No orphaned fixtures for schemas that no longer exist
+      const files = new Set(names.map(fixtureName));
+      for (const file of [
+        ...readdirSync(FIXTURES_DIR).filter((f) => f.endsWith(".json")),
+        ...readdirSync(INVALID_DIR).filter((f) => f.endsWith(".json")),
+      ]) {
+        expect(files.has(file), file).toBe(true);
+      }
+    });
+
+    it.each(names)("should round-trip %s fixture canonically", (name) => {
+      const data = loadJson(new URL(fixtureName(name), FIXTURES_DIR));
+
+      const parsed = WIRE_SCHEMAS[name].safeParse(data);
+      expect(parsed.success).toBe(true);
+      expect(canonicalJson(parsed.data)).toBe(canonicalJson(data));
+
+      const codec = codecs[name];
+      if (codec === undefined) return;
+
+      const encoded = codec.encode(codec.decode(parsed.data));
+      expect(canonicalJson(encoded)).toBe(canonicalJson(data));
+
+      // Encoding is stable across repeated round trips
+      const again = codec.encode(codec.decode(codec.validate(encoded).data));
+      expect(canonicalJson(again)).toBe(canonicalJson(encoded));
+    });
+
+    it.each(names)("should reject invalid %s fixtures", (name) => {
+      const cases = loadJson(
+        new URL(fixtureName(name), INVALID_DIR)
+      ) as InvalidFixture[];
+      expect(cases.length).toBeGreaterThan(0);
+
+      for (const { description, path, data } of cases) {
+        const result = WIRE_SCHEMAS[name].safeParse(data);
+        expect(result.success, description).toBe(false);
+        expect(
+          result.error?.issues.map((issue) => issue.path),
+          description
+        ).toContainEqual(path);
+      }
+    });
+  });
+
+  describe("Test data generators", () => {
+    const kinds = Object.keys(messageCodecs) as MessageKind[];
+
+    it("should be deterministic for a given seed", () => {
+      const a = createGenerators(42);
+      const b = createGenerators(42);
+      const c = createGenerators(43);
+      for (const kind of kinds) {
+        const codec: WireCodec<any, any> = messageCodecs[kind];
+        const sample = codec.encode(a[kind]());
+        expect(codec.encode(b[kind]())).toEqual(sample);
+        expect(codec.encode(c[kind]())).not.toEqual(sample);
+      }
+    });
+
+    it("should round-trip every generated type through its codec", () => {
+      const gen = createGenerators(7);
+      for (let i = 0; i < 50; i++) {
+        for (const kind of kinds) {
+          const codec: WireCodec<any, any> = messageCodecs[kind];
+          const wire = codec.encode(gen[kind]());
+          const parsed = codec.validate(JSON.parse(JSON.stringify(wire)));
+          expect(parsed.success, kind).toBe(true);
+          expect(codec.encode(codec.decode(parsed.data))).toEqual(wire);
+        }
+      }
+    });
+
+    it("should respect type invariants", () => {
+      const gen = createGenerators(11);
+      for (let i = 0; i < 50; i++) {
+        expect(
+          marketBarSchema.validateStrict(encodeMarketBar(gen.marketBar()))
+            .success
+        ).toBe(true);
+        expect(
+          orderSchema.validateStrict(encodeOrder(gen.order())).success
+        ).toBe(true);
+        expect(
+          orderStateSchema.validateStrict(encodeOrderState(gen.orderState()))
+            .success
+        ).toBe(true);
+        expect(validatePositionIntegrity(gen.position()).valid).toBe(true);
+      }
+    });
+
+    it("should apply overrides and recompute derived fields", () => {
+      const gen = createGenerators(3, { symbols: ["BTCUSDT"] });
+
+      const state = gen.orderState({ quantity: 10, status: "FILLED" });
+      expect(state.symbol).toBe("BTCUSDT");
+      expect(state.filledQuantity).toBe(10);
+      expect(state.remainingQuantity).toBe(0);
+
+      const sell = gen.order({ side: "SELL", type: "LIMIT" });
+      expect(["CLOSE_LONG", "OPEN_SHORT"]).toContain(sell.effect);
+      expect(sell.price).toBeDefined();
+      expect(sell.stopPrice).toBeUndefined();
+
+      const bar = gen.marketBar({ open: 100, close: 120, interval: "1h" });
+      expect(bar.high).toBeGreaterThanOrEqual(120);
+      expect(bar.low).toBeLessThanOrEqual(100);
+
+      const long = gen.longPosition({
+        lots: [
+          { quantity: 5, price: 10, totalCost: 50 },
+          { quantity: 5, price: 12, totalCost: 60 },
+        ],
+      });
+      expect(long.quantity).toBe(10);
+      expect(long.totalCost).toBe(110);
+    });
+  });
+
+  describe("Order amendments", () => {
+    const order = {
+      id: "order-1",
+      symbol: "BTCUSDT",
+      side: "BUY" as const,
+      effect: "OPEN_LONG" as const,
+      type: "LIMIT" as const,
+      quantity: 10,
+      price: 50000,
+      created: new Date("2024-01-01T00:00:00Z"),
+    };
+    const state = {
+      ...order,
+      filledQuantity: 4,
+      remainingQuantity: 6,
+      status: "PARTIAL" as const,
+      modified: new Date("2024-01-01T00:01:00Z"),
+    };
+
+    it("should apply an amendment and recompute remaining quantity", () => {
+      const result = applyPartialOrder(state, {
+        id: "order-1",
+        quantity: 8,
+        price: 49000,
+      });
+      expect(result.valid).toBe(true);
+      expect(result.order.quantity).toBe(8);
+      expect(result.order.price).toBe(49000);
+      expect(result.order.remainingQuantity).toBe(4);
+      expect(state.quantity).toBe(10);
+    });
+
+    it("should complete an order amended down to its filled quantity", () => {
+      const result = applyPartialOrder(state, { id: "order-1", quantity: 4 });
+      expect(result.valid).toBe(true);
+      expect(result.order.status).toBe("FILLED");
+      expect(result.order.remainingQuantity).toBe(0);
+      expect(
+        orderStateSchema.validateStrict(encodeOrderState(result.order)).success
+      ).toBe(true);
+
+      // Unfilled orders keep their status
+      const open = {
+        ...state,
+        filledQuantity: 0,
+        remainingQuantity: 10,
+        status: "OPEN" as const,
+      };
+      const amended = applyPartialOrder(open, { id: "order-1", quantity: 5 });
+      expect(amended.order.status).toBe("OPEN");
+      expect(amended.order.remainingQuantity).toBe(5);
+    });
+
+    it("should check OrderState invariants on the amended state", () => {
+      const inconsistent = {
+        ...state,
+        filledQuantity: -1,
+        remainingQuantity: 11,
+      };
+      const result = applyPartialOrder(inconsistent, {
+        id: "order-1",
+        price: 49000,
+      });
+      expect(result.errors).toEqual([
+        { type: "INVALID_ORDER", invariants: ["INVALID_FILLED_QUANTITY"] },
+      ]);
+    });
+
+    it("should reject symbol or side changes on a live order", () => {
+      const result = applyPartialOrder(state, {
+        id: "order-1",
+        symbol: "ETHUSDT",
+        side: "SELL",
+        effect: "CLOSE_LONG",
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual({
+        type: "IMMUTABLE_FIELD",
+        field: "symbol",
+      });
+      expect(result.errors).toContainEqual({
+        type: "IMMUTABLE_FIELD",
+        field: "side",
+      });
+
+      // Unplaced orders can still be reworked freely
+      expect(
+        applyPartialOrder(order, {
+          id: "order-1",
+          symbol: "ETHUSDT",
+          side: "SELL",
+          effect: "CLOSE_LONG",
+        }).valid
+      ).toBe(true);
+    });
+
+    it("should reject quantity below filled and terminal orders", () => {
+      expect(
+        applyPartialOrder(state, { id: "order-1", quantity: 3 }).errors
+      ).toEqual([
+        { type: "QUANTITY_BELOW_FILLED", quantity: 3, filledQuantity: 4 },
+      ]);
+
+      const filled = {
+        ...state,
+        filledQuantity: 10,
+        remainingQuantity: 0,
+        status: "FILLED" as const,
+      };
+      expect(
+        applyPartialOrder(filled, { id: "order-1", price: 1 }).errors
+      ).toEqual([{ type: "ORDER_NOT_LIVE", status: "FILLED" }]);
+    });
+
+    it("should report invariants broken by the amendment", () => {
+      const result = applyPartialOrder(order, {
+        id: "order-1",
+        type: "STOP_LIMIT",
+        effect: "CLOSE_LONG",
+      });
+      expect(result.errors).toEqual([
+        {
+          type: "INVALID_ORDER",
+          invariants: ["INVALID_ACTION", "MISSING_STOP_PRICE"],
+        },
+      ]);
+      expect(
+        applyPartialOrder(order, { id: "order-2", quantity: 1 }).errors
+      ).toEqual([{ type: "ORDER_MISMATCH", field: "id" }]);
+    });
+
+    it("should diff orders into a minimal partial order", () => {
+      const next = {
+        ...order,
+        quantity: 12,
+        created: new Date("2024-01-01T00:00:00Z"),
+      };
+      const partial = diffOrders(order, next);
+      expect(encodePartialOrder(partial)).toEqual({
+        id: "order-1",
+        quantity: 12,
+      });
+      expect(diffOrders(order, { ...order })).toEqual({ id: "order-1" });
+      expect(() => diffOrders(order, { ...order, id: "order-2" })).toThrow(
+        RangeError
+      );
+    });
+
+    it("should round-trip diff and apply", () => {
+      const gen = createGenerators(5);
+      for (let i = 0; i < 50; i++) {
+        const a = gen.order();
+        const b = gen.order({ id: a.id, side: a.side });
+        const result = applyPartialOrder(a, diffOrders(a, b));
+        expect(result.valid).toBe(true);
+        expect(encodeOrder(result.order)).toEqual(encodeOrder(b));
+      }
+    });
+  });
+
+  describe("Position patches", () => {
+    const t0 = new Date("2024-01-01T00:00:00Z");
+    const t1 = new Date("2024-01-01T00:01:00Z");
+    const lot = (quantity: number, price: number) => ({
+      quantity,
+      price,
+      totalCost: quantity * price,
+    });
+
+    const prev = {
+      cash: 10000,
+      totalCommission: 1,
+      realisedPnL: 0,
+      modified: t0,
+      long: new Map([
+        [
+          "BTCUSDT",
+          {
+            quantity: 3,
+            totalCost: 303,
+            realisedPnL: 0,
+            lots: [lot(1, 100), lot(1, 101), lot(1, 102)],
+            modified: t0,
+          },
+        ],
+        [
+          "ETHUSDT",
+          {
+            quantity: 1,
+            totalCost: 10,
+            realisedPnL: 0,
+            lots: [lot(1, 10)],
+            modified: t0,
+          },
+        ],
+      ]),
+    };
+
+    // FIFO close of 1.5 BTC, then a fresh lot; ETH closed out, SOL opened
+    const next = {
+      cash: 10500,
+      totalCommission: 2,
+      realisedPnL: 25,
+      modified: t1,
+      long: new Map([
+        [
+          "BTCUSDT",
+          {
+            quantity: 2.5,
+            totalCost: 262.5,
+            realisedPnL: 25,
+            lots: [lot(0.5, 101), lot(1, 102), lot(1, 110)],
+            modified: t1,
+          },
+        ],
+        [
+          "SOLUSDT",
+          {
+            quantity: 2,
+            totalCost: 40,
+            realisedPnL: 0,
+            lots: [lot(2, 20)],
+            modified: t1,
+          },
+        ],
+      ]),
+    };
+
+    it("should describe only what changed", () => {
+      const patch = diffPosition(prev, next, 8);
+      expect(patch).toEqual({
+        seq: 8,
+        cash: 10500,
+        totalCommission: 2,
+        realisedPnL: 25,
+        modified: t1.getTime(),
+        long: {
+          added: {
+            SOLUSDT: encodeLongPosition(next.long.get("SOLUSDT")!),
+          },
+          updated: {
+            BTCUSDT: {
+              quantity: 2.5,
+              totalCost: 262.5,
+              realisedPnL: 25,
+              lots: {
+                shift: 2,
+                unshift: [lot(0.5, 101)],
+                push: [lot(1, 110)],
+              },
+              modified: t1.getTime(),
+            },
+          },
+          removed: ["ETHUSDT"],
+        },
+      });
+      expect(
+        PositionPatchWireSchema.safeParse(JSON.parse(JSON.stringify(patch)))
+          .success
+      ).toBe(true);
+    });
+
+    it("should apply a patch to reproduce the next snapshot", () => {
+      const patch = JSON.parse(JSON.stringify(diffPosition(prev, next, 8)));
+      const result = applyPositionPatch(prev, patch, 7);
+      expect(result.valid).toBe(true);
+      expect(encodePosition(result.position)).toEqual(encodePosition(next));
+      expect(prev.long.get("BTCUSDT")!.lots).toHaveLength(3);
+    });
+
+    it("should detect sequence gaps and stale patches", () => {
+      const patch = diffPosition(prev, next, 8);
+      for (const seq of [5, 8]) {
+        const result = applyPositionPatch(prev, patch, seq);
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([
+          { type: "OUT_OF_SEQUENCE", expected: seq + 1, actual: 8 },
+        ]);
+        expect(result.position).toBe(prev);
+      }
+    });
+
+    it("should reject patches that do not fit the snapshot", () => {
+      const patch = diffPosition(prev, next, 1);
+      const result = applyPositionPatch(
+        { ...prev, long: new Map([["BTCUSDT", prev.long.get("BTCUSDT")!]]) },
+        {
+          ...patch,
+          long: {
+            ...patch.long,
+            updated: { BTCUSDT: { lots: { shift: 2, pop: 2 } } },
+          },
+        },
+        0
+      );
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        { type: "UNKNOWN_SYMBOL", symbol: "ETHUSDT", positionType: "LONG" },
+        { type: "LOT_UNDERFLOW", symbol: "BTCUSDT", positionType: "LONG" },
+      ]);
+    });
+
+    it("should round-trip generated snapshots", () => {
+      const gen = createGenerators(9, { symbols: ["A", "B", "C", "D"] });
+      let position = gen.position();
+      for (let seq = 1; seq <= 50; seq++) {
+        const target = gen.position();
+        const result = applyPositionPatch(
+          position,
+          diffPosition(position, target, seq),
+          seq - 1
+        );
+        expect(result.valid).toBe(true);
+        expect(encodePosition(result.position)).toEqual(encodePosition(target));
+        position = result.position;
+      }
+    });
+  });
+
+  describe("Market snapshot deltas", () => {
+    const snapshot = (ts: number, entries: [string, number][]) => ({
+      price: new Map(entries),
+      timestamp: new Date(ts),
+    });
+    const s0 = snapshot(1000, [
+      ["AAPL", 150],
+      ["MSFT", 300],
+      ["TSLA", 250],
+    ]);
+    const s1 = snapshot(2000, [
+      ["AAPL", 151],
+      ["MSFT", 300],
+      ["GOOGL", 2800],
+    ]);
+
+    it("should carry only changed and removed symbols", () => {
+      const delta = diffMarketSnapshot(s0, s1, 1);
+      expect(delta).toEqual({
+        type: "delta",
+        seq: 1,
+        baseSeq: 0,
+        baseTimestamp: 1000,
+        price: { AAPL: 151, GOOGL: 2800 },
+        removed: ["TSLA"],
+        timestamp: 2000,
+      });
+      expect(MarketSnapshotDeltaWireSchema.safeParse(delta).success).toBe(true);
+    });
+
+    it("should reproduce the feed through encoder and decoder", () => {
+      const gen = createGenerators(13, { symbols: ["A", "B", "C", "D"] });
+      // Generated prices all move every tick, so allow full-size deltas
+      const encoder = createSnapshotDeltaEncoder({
+        keyframeInterval: 10,
+        maxChangeRatio: 1,
+      });
+      const decoder = createSnapshotDeltaDecoder();
+      const types: string[] = [];
+
+      for (let i = 0; i < 30; i++) {
+        const next = gen.marketSnapshot();
+        const frame = JSON.parse(JSON.stringify(encoder.encode(next)));
+        types.push(frame.type);
+        expect(MarketSnapshotDeltaWireSchema.safeParse(frame).success).toBe(
+          true
+        );
+
+        const result = decoder.decode(frame);
+        expect(result.valid).toBe(true);
+        expect(encodeMarketSnapshot(result.snapshot!)).toEqual(
+          encodeMarketSnapshot(next)
+        );
+      }
+      expect(types[0]).toBe("full");
+      expect(types).toContain("delta");
+    });
+
+    it("should keyframe on interval, large changes or request", () => {
+      const everyFrame = createSnapshotDeltaEncoder({ keyframeInterval: 1 });
+      expect(everyFrame.encode(s0).type).toBe("full");
+      expect(everyFrame.encode(s1).type).toBe("full");
+
+      // Two of three symbols changed plus one removed exceeds the ratio
+      const encoder = createSnapshotDeltaEncoder({ maxChangeRatio: 0.5 });
+      expect(encoder.encode(s0).type).toBe("full");
+      expect(encoder.encode(s1).type).toBe("full");
+      expect(encoder.encode(snapshot(3000, [...s1.price])).type).toBe("delta");
+
+      encoder.keyframe();
+      expect(encoder.encode(s1)).toEqual({
+        type: "full",
+        seq: 3,
+        price: { AAPL: 151, MSFT: 300, GOOGL: 2800 },
+        timestamp: 2000,
+      });
+    });
+
+    it("should detect gaps and resync on the next keyframe", () => {
+      const encoder = createSnapshotDeltaEncoder({ maxChangeRatio: 1 });
+      const frames = [s0, s1, s0, s1].map((s) => encoder.encode(s));
+      const decoder = createSnapshotDeltaDecoder();
+
+      expect(decoder.decode(frames[1]!).errors).toEqual([
+        { type: "MISSING_KEYFRAME", seq: 1 },
+      ]);
+      expect(decoder.decode(frames[0]!).valid).toBe(true);
+      expect(decoder.decode(frames[2]!)).toEqual({
+        valid: false,
+        errors: [{ type: "OUT_OF_SEQUENCE", expected: 0, actual: 1 }],
+        snapshot: undefined,
+      });
+      expect(decoder.decode(frames[3]!).errors).toEqual([
+        { type: "MISSING_KEYFRAME", seq: 3 },
+      ]);
+
+      decoder.decode(frames[0]!);
+      expect(
+        decoder.decode({
+          ...frames[1]!,
+          baseTimestamp: 999,
+        } as (typeof frames)[1]).errors
+      ).toEqual([{ type: "BASE_MISMATCH", expected: 1000, actual: 999 }]);
+    });
+  });
+
+  describe("Fill reconciliation", () => {
+    const order = {
+      id: "order-1",
+      symbol: "BTCUSDT",
+      side: "BUY" as const,
+      effect: "OPEN_LONG" as const,
+      type: "LIMIT" as const,
+      quantity: 10,
+      price: 100,
+      created: new Date(1000),
+    };
+    const fill = (id: string, quantity: number, price: number, ts: number) => ({
+      id,
+      orderId: "order-1",
+      symbol: "BTCUSDT",
+      side: "BUY" as const,
+      effect: "OPEN_LONG" as const,
+      quantity,
+      price,
+      commission: 0.5,
+      created: new Date(ts),
+    });
+
+    it("should derive order state, VWAP and commission from fills", () => {
+      const result = reconcileFills(order, [
+        fill("f2", 6, 100, 3000),
+        fill("f1", 2, 98, 2000),
+      ]);
+      expect(result.valid).toBe(true);
+      expect(result.state).toMatchObject({
+        id: "order-1",
+        filledQuantity: 8,
+        remainingQuantity: 2,
+        status: "PARTIAL",
+        modified: new Date(3000),
+      });
+      expect(result.averagePrice).toBeCloseTo((2 * 98 + 6 * 100) / 8);
+      expect(result.commission).toBe(1);
+      expect(
+        orderStateSchema.validateStrict(encodeOrderState(result.state)).success
+      ).toBe(true);
+
+      const filled = reconcileFills(order, [fill("f1", 10, 99, 2000)]);
+      expect(filled.state.status).toBe("FILLED");
+      expect(filled.state.remainingQuantity).toBe(0);
+    });
+
+    it("should snap float residue on completion", () => {
+      for (const [quantity, sizes] of [
+        [1, Array<number>(10).fill(0.1)],
+        [0.3, [0.1, 0.2]],
+      ] as const) {
+        const result = reconcileFills(
+          { ...order, quantity },
+          sizes.map((size, i) => fill(`f${i}`, size, 100, 2000 + i))
+        );
+        expect(result.valid).toBe(true);
+        expect(result.state).toMatchObject({
+          filledQuantity: quantity,
+          remainingQuantity: 0,
+          status: "FILLED",
+        });
+        expect(
+          orderStateSchema.validateStrict(encodeOrderState(result.state))
+            .success
+        ).toBe(true);
+      }
+    });
+
+    it("should keep terminal and unfilled statuses", () => {
+      const state = {
+        ...order,
+        filledQuantity: 0,
+        remainingQuantity: 10,
+        status: "CANCELLED" as const,
+        modified: new Date(5000),
+      };
+      const cancelled = reconcileFills(state, [fill("f1", 4, 100, 2000)]);
+      expect(cancelled.state.status).toBe("CANCELLED");
+      expect(cancelled.state.modified).toEqual(new Date(5000));
+
+      expect(reconcileFills(order, []).state).toMatchObject({
+        status: "PENDING",
+        filledQuantity: 0,
+        modified: new Date(1000),
+      });
+      expect(reconcileFills(order, []).averagePrice).toBeUndefined();
+      expect(
+        reconcileFills({ ...state, status: "PARTIAL" }, []).state.status
+      ).toBe("OPEN");
+    });
+
+    it("should report mismatched, duplicate, excess and off-limit fills", () => {
+      const result = reconcileFills(order, [
+        fill("f1", 6, 100, 2000),
+        fill("f1", 6, 100, 2000),
+        { ...fill("f2", 1, 100, 2500), orderId: "order-2" },
+        { ...fill("f3", 1, 100, 2600), side: "SELL", effect: "CLOSE_LONG" },
+        fill("f4", 3, 101, 3000),
+        fill("f5", 2, 99, 4000),
+      ]);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        { type: "DUPLICATE_FILL", fillId: "f1" },
+        { type: "ORDER_MISMATCH", fillId: "f2", field: "orderId" },
+        { type: "ORDER_MISMATCH", fillId: "f3", field: "side" },
+        { type: "LIMIT_VIOLATION", fillId: "f4", price: 101, limit: 100 },
+        { type: "OVERFILL", fillId: "f5", filledQuantity: 11, quantity: 10 },
+      ]);
+      expect(result.state.filledQuantity).toBe(11);
+      expect(result.state.remainingQuantity).toBe(0);
+    });
+
+    it("should respect the limit direction for sells", () => {
+      const sell = {
+        ...order,
+        side: "SELL" as const,
+        effect: "CLOSE_LONG" as const,
+      };
+      const sellFill = (id: string, price: number) => ({
+        ...fill(id, 1, price, 2000),
+        side: "SELL" as const,
+        effect: "CLOSE_LONG" as const,
+      });
+      expect(reconcileFills(sell, [sellFill("f1", 101)]).valid).toBe(true);
+      expect(reconcileFills(sell, [sellFill("f2", 99)]).errors).toEqual([
+        { type: "LIMIT_VIOLATION", fillId: "f2", price: 99, limit: 100 },
+      ]);
+      expect(
+        reconcileFills({ ...order, type: "MARKET" as const }, [
+          fill("f3", 1, 150, 2000),
+        ]).valid
+      ).toBe(true);
+    });
+  });
+
+  describe("Order book", () => {
+    const update = (
+      seq: number,
+      isSnapshot: boolean,
+      bids: [number, number][],
+      asks: [number, number][]
+    ) => ({
+      symbol: "BTCUSDT",
+      seq,
+      isSnapshot,
+      bids: bids.map(([price, size]) => ({ price, size })),
+      asks: asks.map(([price, size]) => ({ price, size })),
+      timestamp: new Date(1000 + seq),
+    });
+    const snapshot = update(
+      10,
+      true,
+      [
+        [99, 1],
+        [100, 2],
+        [98, 3],
+      ],
+      [
+        [102, 1],
+        [101, 2],
+      ]
+    );
+    const prices = (levels: { price: number }[]) => levels.map((l) => l.price);
+
+    it("should serialize and deserialize", () => {
+      const wire = orderBookUpdateSchema.encode({
+        ...snapshot,
+        bids: [{ price: 100, size: 2, orders: 3 }],
+      });
+      expect(wire.bids).toEqual([{ price: 100, size: 2, orders: 3 }]);
+      expect(wire.asks[0]).toEqual({ price: 102, size: 1 });
+
+      const parsed = orderBookUpdateSchema.validate(
+        JSON.parse(JSON.stringify(wire))
+      );
+      expect(parsed.success).toBe(true);
+      if (parsed.success) {
+        expect(orderBookUpdateSchema.decode(parsed.data)).toEqual({
+          ...snapshot,
+          bids: [{ price: 100, size: 2, orders: 3 }],
+        });
+      }
+      expect(
+        orderBookUpdateSchema.validate({
+          ...wire,
+          bids: [{ price: 1, size: -1 }],
+        }).success
+      ).toBe(false);
+    });
+
+    it("should build a sorted book and apply incremental updates", () => {
+      const { book } = applyOrderBookUpdate(undefined, snapshot);
+      expect(prices(book!.bids)).toEqual([100, 99, 98]);
+      expect(prices(book!.asks)).toEqual([101, 102]);
+
+      const result = applyOrderBookUpdate(
+        book,
+        update(
+          11,
+          false,
+          [
+            [99, 0],
+            [100.5, 4],
+            [98, 1],
+          ],
+          [[103, 5]]
+        )
+      );
+      expect(result.valid).toBe(true);
+      expect(result.book!.seq).toBe(11);
+      expect(result.book!.bids).toEqual([
+        { price: 100.5, size: 4 },
+        { price: 100, size: 2 },
+        { price: 98, size: 1 },
+      ]);
+      expect(prices(result.book!.asks)).toEqual([101, 102, 103]);
+      expect(prices(book!.bids)).toEqual([100, 99, 98]);
+    });
+
+    it("should detect gaps, missing snapshots and crossed books", () => {
+      const { book } = applyOrderBookUpdate(undefined, snapshot);
+
+      expect(
+        applyOrderBookUpdate(undefined, update(11, false, [], [])).errors
+      ).toEqual([{ type: "MISSING_SNAPSHOT", seq: 11 }]);
+      const gap = applyOrderBookUpdate(book, update(13, false, [], []));
+      expect(gap.errors).toEqual([
+        { type: "OUT_OF_SEQUENCE", expected: 11, actual: 13 },
+      ]);
+      expect(gap.book).toBe(book);
+      expect(
+        applyOrderBookUpdate(book, {
+          ...update(11, false, [], []),
+          symbol: "ETHUSDT",
+        }).errors
+      ).toEqual([
+        { type: "SYMBOL_MISMATCH", expected: "BTCUSDT", actual: "ETHUSDT" },
+      ]);
+
+      expect(
+        applyOrderBookUpdate(book, update(11, false, [[101.5, 1]], [])).errors
+      ).toEqual([{ type: "CROSSED_BOOK", bid: 101.5, ask: 101 }]);
+      expect(
+        applyOrderBookUpdate(book, update(11, false, [[101, 1]], [])).valid
+      ).toBe(true);
+
+      // A snapshot resyncs regardless of sequence
+      expect(
+        applyOrderBookUpdate(book, update(50, true, [[1, 1]], [])).valid
+      ).toBe(true);
+    });
+  });
+
+  describe("Trade ticks", () => {
+    const tick = (
+      id: string,
+      symbol: string,
+      price: number,
+      volume: number,
+      time: string
+    ) => ({
+      id,
+      symbol,
+      price,
+      volume,
+      timestamp: new Date(`2024-01-01T${time}Z`),
+    });
+
+    it("should serialize and deserialize", () => {
+      const full = {
+        ...tick("t1", "AAPL", 150.25, 100, "14:30:00.123"),
+        aggressor: "SELL" as const,
+        conditions: ["@", "I"],
+        venue: "XNAS",
+      };
+      const wire = tradeTickSchema.encode(full);
+      expect(wire.timestamp).toBe(Date.UTC(2024, 0, 1, 14, 30, 0, 123));
+      const parsed = tradeTickSchema.validate(JSON.parse(JSON.stringify(wire)));
+      expect(parsed.success).toBe(true);
+      if (parsed.success) {
+        expect(tradeTickSchema.decode(parsed.data)).toEqual(full);
+      }
+
+      const minimal = tradeTickSchema.encode(
+        tick("t2", "AAPL", 1, 1, "00:00:00")
+      );
+      expect(Object.keys(minimal)).toEqual([
+        "id",
+        "symbol",
+        "price",
+        "volume",
+        "timestamp",
+      ]);
+      expect(
+        tradeTickSchema.validate({ ...minimal, aggressor: "HOLD" }).success
+      ).toBe(false);
+    });
+
+    it("should aggregate ticks into aligned bars per symbol", () => {
+      const bars = aggregateTicks(
+        [
+          tick("1", "AAPL", 100, 10, "14:30:05"),
+          tick("2", "MSFT", 300, 1, "14:31:00"),
+          tick("3", "AAPL", 103, 5, "14:33:00"),
+          // Late print still counts as the earliest, so it opens the bar
+          tick("4", "AAPL", 99, 2, "14:30:01"),
+          tick("5", "AAPL", 101, 1, "14:34:59.999"),
+          tick("6", "AAPL", 102, 3, "14:35:00"),
+        ],
+        "5m"
+      );
+
+      expect(bars.map(encodeMarketBar)).toEqual([
+        {
+          symbol: "AAPL",
+          open: 99,
+          high: 103,
+          low: 99,
+          close: 101,
+          volume: 18,
+          timestamp: Date.UTC(2024, 0, 1, 14, 30),
+          interval: "5m",
+        },
+        {
+          symbol: "MSFT",
+          open: 300,
+          high: 300,
+          low: 300,
+          close: 300,
+          volume: 1,
+          timestamp: Date.UTC(2024, 0, 1, 14, 30),
+          interval: "5m",
+        },
+        {
+          symbol: "AAPL",
+          open: 102,
+          high: 102,
+          low: 102,
+          close: 102,
+          volume: 3,
+          timestamp: Date.UTC(2024, 0, 1, 14, 35),
+          interval: "5m",
+        },
+      ]);
+      for (const bar of bars) {
+        expect(
+          marketBarSchema.validateStrict(encodeMarketBar(bar)).success
+        ).toBe(true);
+      }
+    });
+
+    it("should align weekly and monthly bars and filter ticks", () => {
+      const ticks = [
+        tick("1", "AAPL", 100, 1, "12:00:00"),
+        { ...tick("2", "AAPL", 500, 1, "13:00:00"), conditions: ["Z"] },
+      ];
+      const [weekly] = aggregateTicks(ticks, "1w", {
+        include: (t) => !t.conditions?.includes("Z"),
+      });
+      // 2024-01-01 is a Monday
+      expect(weekly!.timestamp).toEqual(new Date(Date.UTC(2024, 0, 1)));
+      expect(weekly!.high).toBe(100);
+
+      const [monthly] = aggregateTicks(
+        [{ ...ticks[0]!, timestamp: new Date(Date.UTC(2024, 1, 29, 23)) }],
+        "1M"
+      );
+      expect(monthly!.timestamp).toEqual(new Date(Date.UTC(2024, 1, 1)));
+    });
+  });
+
+  describe("Bar intervals", () => {
+    const bar = {
+      symbol: "AAPL",
+      open: 150,
+      high: 151,
+      low: 149.5,
+      close: 150.5,
+      volume: 1000,
+      timestamp: Date.UTC(2024, 0, 1, 14, 30),
+      interval: "1m",
+    };
+
+    it("should parse and format the interval grammar", () => {
+      expect(parseBarInterval("15m")).toEqual({
+        kind: "time",
+        count: 15,
+        unit: "m",
+      });
+      expect(parseBarInterval("3M")).toEqual({
+        kind: "time",
+        count: 3,
+        unit: "M",
+      });
+      expect(parseBarInterval("100tick")).toEqual({ kind: "tick", size: 100 });
+      expect(parseBarInterval("0.5range")).toEqual({
+        kind: "range",
+        size: 0.5,
+      });
+      for (const interval of [
+        "5x",
+        "0m",
+        "1.5m",
+        "m",
+        "05m",
+        "0volume",
+        "1.0volume",
+        "0.10range",
+      ]) {
+        expect(parseBarInterval(interval)).toBeUndefined();
+      }
+      for (const interval of [
+        "30s",
+        "3m",
+        "2d",
+        "3M",
+        "1volume",
+        "2500.5volume",
+        "0.05range",
+      ]) {
+        expect(formatBarInterval(parseBarInterval(interval)!)).toBe(interval);
+      }
+    });
+
+    it("should narrow decoded intervals back to the core bar type", () => {
+      const decoded = marketBarSchema.decode({ ...bar, interval: "4h" });
+      expect(isMarketBarInterval(decoded.interval)).toBe(true);
+      if (isMarketBarInterval(decoded.interval)) {
+        const core: MarketBar = { ...decoded, interval: decoded.interval };
+        expect(encodeMarketBar(core)).toEqual({ ...bar, interval: "4h" });
+      }
+      for (const interval of ["3m", "30s", "100tick", "0.5range"]) {
+        expect(isMarketBarInterval(interval)).toBe(false);
+      }
+    });
+
+    it("should validate standard and extended intervals on the wire", () => {
+      for (const interval of ["1m", "4h", "1w", "1M", "3m", "30s", "100tick"]) {
+        const parsed = marketBarSchema.validate({ ...bar, interval });
+        expect(parsed.success).toBe(true);
+        if (parsed.success) {
+          expect(marketBarSchema.decode(parsed.data).interval).toBe(interval);
+        }
+      }
+      const invalid = marketBarSchema.validate({ ...bar, interval: "5x" });
+      expect(invalid.success).toBe(false);
+      if (!invalid.success) {
+        expect(invalid.error.issues[0]!.path).toEqual(["interval"]);
+      }
+    });
+
+    it("should compute bar lengths and boundaries", () => {
+      expect(barIntervalMs("3m")).toBe(180_000);
+      expect(barIntervalMs("30s")).toBe(30_000);
+      expect(barIntervalMs("1M")).toBeUndefined();
+      expect(barIntervalMs("100tick")).toBeUndefined();
+      for (const [interval, ms] of Object.entries(MARKET_BAR_INTERVAL_MS)) {
+        expect(barIntervalMs(interval)).toBe(ms);
+      }
+      expect(MARKET_BAR_INTERVAL_MS["1w"]).toBe(7 * 86_400_000);
+      expect(MARKET_BAR_INTERVAL_MS).not.toHaveProperty("1M");
+
+      const t = Date.UTC(2024, 4, 15, 14, 31, 42);
+      expect(alignToBarInterval(t, "3m")).toBe(Date.UTC(2024, 4, 15, 14, 30));
+      // 2024-05-13 is a Monday
+      expect(alignToBarInterval(t, "1w")).toBe(Date.UTC(2024, 4, 13));
+      expect(alignToBarInterval(t, "1M")).toBe(Date.UTC(2024, 4, 1));
+      expect(alignToBarInterval(t, "3M")).toBe(Date.UTC(2024, 3, 1));
+      expect(alignToBarInterval(Date.UTC(1969, 11, 31), "1d")).toBe(
+        Date.UTC(1969, 11, 31)
+      );
+      expect(() => alignToBarInterval(t, "100tick")).toThrow(RangeError);
+
+      expect(addBarInterval(Date.UTC(2024, 0, 31), "1M")).toBe(
+        Date.UTC(2024, 1, 29)
+      );
+      expect(addBarInterval(Date.UTC(2024, 2, 31), "1M", -1)).toBe(
+        Date.UTC(2024, 1, 29)
+      );
+      expect(addBarInterval(Date.UTC(2024, 10, 1), "3M")).toBe(
+        Date.UTC(2025, 1, 1)
+      );
+      expect(addBarInterval(t, "3m", 2)).toBe(t + 360_000);
+
+      expect(isAlignedToInterval(Date.UTC(2024, 0, 1, 14, 33), "3m")).toBe(
+        true
+      );
+      expect(isAlignedToInterval(Date.UTC(2024, 0, 1, 14, 31), "3m")).toBe(
+        false
+      );
+      expect(isAlignedToInterval(t, "100tick")).toBe(true);
+      expect(isAlignedToInterval(t, "5x")).toBe(false);
+    });
+
+    it("should check alignment of custom intervals in strict mode", () => {
+      expect(
+        marketBarSchema.validateStrict({
+          ...bar,
+          interval: "3m",
+          timestamp: Date.UTC(2024, 0, 1, 14, 33),
+        }).success
+      ).toBe(true);
+      const misaligned = marketBarSchema.validateStrict({
+        ...bar,
+        interval: "3m",
+        timestamp: Date.UTC(2024, 0, 1, 14, 31),
+      });
+      expect(misaligned.success).toBe(false);
+      if (!misaligned.success) {
+        expect(getInvariants(misaligned.error)).toContain(
+          "UNALIGNED_TIMESTAMP"
+        );
+      }
+    });
+
+    it("should carry custom intervals through binary and archive codecs", () => {
+      const custom = decodeMarketBar({
+        ...bar,
+        interval: "3m",
+        timestamp: Date.UTC(2024, 0, 1, 14, 33),
+      });
+      expect(marketBarBinary.decode(marketBarBinary.encode(custom))).toEqual(
+        custom
+      );
+
+      const series = [0, 1, 2].map((i) => ({
+        ...custom,
+        timestamp: new Date(
+          addBarInterval(custom.timestamp.getTime(), "3m", i)
+        ),
+      }));
+      expect(decodeBarArchive(encodeBarArchive(series))).toEqual(series);
+    });
+
+    it("should aggregate ticks into activity bars", () => {
+      const tick = (price: number, volume: number, second: number) => ({
+        id: `t${second}`,
+        symbol: "AAPL",
+        price,
+        volume,
+        timestamp: new Date(Date.UTC(2024, 0, 1, 14, 30, second)),
+      });
+      const ticks = [
+        tick(100, 10, 1),
+        tick(101, 20, 2),
+        tick(99, 5, 3),
+        tick(102, 40, 4),
+        tick(103, 1, 5),
+      ];
+
+      const tickBars = aggregateTicks(ticks, "2tick").map(encodeMarketBar);
+      expect(tickBars.map((b) => [b.open, b.close, b.volume])).toEqual([
+        [100, 101, 30],
+        [99, 102, 45],
+        [103, 103, 1],
+      ]);
+      expect(tickBars[1]!.timestamp).toBe(Date.UTC(2024, 0, 1, 14, 30, 3));
+      expect(tickBars.every((b) => b.interval === "2tick")).toBe(true);
+
+      const volumeBars = aggregateTicks(ticks, "30volume");
+      expect(volumeBars.map((b) => b.volume)).toEqual([30, 45, 1]);
+
+      const rangeBars = aggregateTicks(ticks, "2range");
+      expect(rangeBars.map((b) => [b.low, b.high])).toEqual([
+        [99, 101],
+        [102, 103],
+      ]);
+
+      expect(() => aggregateTicks(ticks, "5x")).toThrow(RangeError);
+    });
+  });
+
+  describe("Bar series", () => {
+    const minute = (i: number, price = 100 + i, volume = 10) => ({
+      symbol: "AAPL",
+      open: price,
+      high: price + 2,
+      low: price - 1,
+      close: price + 1,
+      volume,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 14, 0) + i * 60_000),
+      interval: "1m" as const,
+    });
+
+    it("should downsample with OHLCV aggregation", () => {
+      const bars = [0, 1, 2, 3, 4, 6, 7].map((i) => minute(i));
+      expect(resampleBars(bars, "5m").map(encodeMarketBar)).toEqual([
+        {
+          symbol: "AAPL",
+          open: 100,
+          high: 106,
+          low: 99,
+          close: 105,
+          volume: 50,
+          timestamp: Date.UTC(2024, 0, 1, 14, 0),
+          interval: "5m",
+        },
+        {
+          symbol: "AAPL",
+          open: 106,
+          high: 109,
+          low: 105,
+          close: 108,
+          volume: 20,
+          timestamp: Date.UTC(2024, 0, 1, 14, 5),
+          interval: "5m",
+        },
+      ]);
+
+      const hourly = resampleBars(bars, "1h");
+      expect(hourly).toHaveLength(1);
+      expect(hourly[0]!.interval).toBe("1h");
+      expect(resampleBars([], "1h")).toEqual([]);
+    });
+
+    it("should upsample so that downsampling restores the source", () => {
+      const [hour] = resampleBars(
+        [0, 1, 2].map((i) => minute(i)),
+        "1h"
+      );
+      const quarters = resampleBars([hour!], "15m");
+      expect(quarters.map((b) => b.timestamp.getUTCMinutes())).toEqual([
+        0, 15, 30, 45,
+      ]);
+      expect(quarters.map((b) => [b.open, b.close, b.volume])).toEqual([
+        [100, 100, 7.5],
+        [100, 100, 7.5],
+        [100, 100, 7.5],
+        [100, 103, 7.5],
+      ]);
+      expect(resampleBars(quarters, "1h")).toEqual([hour]);
+
+      const month = {
+        ...minute(0),
+        timestamp: new Date(Date.UTC(2024, 1, 1)),
+        interval: "1M" as const,
+      };
+      expect(resampleBars([month], "1d")).toHaveLength(29);
+    });
+
+    it("should reject intervals that do not nest", () => {
+      const week = {
+        ...minute(0),
+        // Monday; the week runs into February
+        timestamp: new Date(Date.UTC(2024, 0, 29)),
+        interval: "1w" as const,
+      };
+      expect(() => resampleBars([week], "1M")).toThrow(RangeError);
+      expect(() => resampleBars([minute(0)], "100tick")).toThrow(RangeError);
+      expect(() => resampleBars([minute(1), minute(0)], "5m")).toThrow(
+        RangeError
+      );
+    });
+
+    it("should report gaps, duplicates and misordering", () => {
+      expect(validateBarSeries([0, 1, 2].map((i) => minute(i)))).toEqual({
+        valid: true,
+        errors: [],
+      });
+
+      const unaligned = {
+        ...minute(8),
+        timestamp: new Date(minute(8).timestamp.getTime() + 1000),
+      };
+      const result = validateBarSeries([
+        minute(0),
+        minute(1),
+        minute(1),
+        minute(4),
+        minute(3),
+        unaligned,
+      ]);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          type: "DUPLICATE_TIMESTAMP",
+          index: 2,
+          timestamp: minute(1).timestamp,
+        },
+        {
+          type: "GAP",
+          start: minute(2).timestamp,
+          end: minute(4).timestamp,
+          missing: 2,
+        },
+        { type: "OUT_OF_ORDER", index: 4, timestamp: minute(3).timestamp },
+        {
+          type: "UNALIGNED_TIMESTAMP",
+          index: 5,
+          timestamp: unaligned.timestamp,
+        },
+      ]);
+    });
+
+    it("should skip missing bars outside trading hours", () => {
+      const daily = (day: number) => ({
+        ...minute(0),
+        timestamp: new Date(Date.UTC(2024, 0, day)),
+        interval: "1d" as const,
+      });
+      // Friday, then Monday and Thursday
+      const bars = [daily(5), daily(8), daily(11)];
+      expect(validateBarSeries(bars).errors.map((e) => e.type)).toEqual([
+        "GAP",
+        "GAP",
+      ]);
+
+      const weekdays = (t: Date) => t.getUTCDay() % 6 !== 0;
+      expect(
+        validateBarSeries(bars, { isTradingTime: weekdays }).errors
+      ).toEqual([
+        {
+          type: "GAP",
+          start: daily(9).timestamp,
+          end: daily(11).timestamp,
+          missing: 2,
+        },
+      ]);
+    });
+
+    it("should merge overlapping series and dedupe", () => {
+      const first = [0, 1, 2].map((i) => minute(i));
+      const second = [2, 3, 4].map((i) => minute(i, 200));
+
+      const merged = mergeBars([first, second]);
+      expect(merged.map((b) => b.timestamp)).toEqual(
+        [0, 1, 2, 3, 4].map((i) => minute(i).timestamp)
+      );
+      expect(merged[2]!.open).toBe(200);
+      expect(mergeBars([first, second], { keep: "first" })[2]!.open).toBe(102);
+      expect(validateBarSeries(merged).valid).toBe(true);
+
+      expect(
+        dedupeBars([minute(2), minute(0), minute(2, 300)]).map((b) => b.open)
+      ).toEqual([100, 300]);
+    });
+
+    it("should enforce a single symbol and interval per series", () => {
+      const msft = { ...minute(1), symbol: "MSFT" };
+      expect(() => validateBarSeries([minute(0), msft])).toThrow(
+        "Series mixes AAPL 1m and MSFT 1m"
+      );
+      expect(() => mergeBars([[minute(0)], [msft]])).toThrow(RangeError);
+      expect(() =>
+        resampleBars([minute(0), { ...minute(5), interval: "5m" }], "1h")
+      ).toThrow(RangeError);
+    });
+  });
 });